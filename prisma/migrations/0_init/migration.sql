@@ -0,0 +1,381 @@
+-- CreateEnum
+CREATE TYPE "UserRole" AS ENUM ('USER', 'ADMIN', 'MODERATOR');
+
+-- CreateEnum
+CREATE TYPE "AuthProvider" AS ENUM ('EMAIL', 'GITHUB', 'GOOGLE');
+
+-- CreateEnum
+CREATE TYPE "Visibility" AS ENUM ('PUBLIC', 'PRIVATE', 'UNLISTED');
+
+-- CreateEnum
+CREATE TYPE "Complexity" AS ENUM ('BEGINNER', 'INTERMEDIATE', 'ADVANCED');
+
+-- CreateEnum
+CREATE TYPE "ActivityType" AS ENUM ('VIEW', 'DOWNLOAD', 'COMMENT', 'LIKE', 'FORK', 'CREATE');
+
+-- CreateEnum
+CREATE TYPE "DependencyType" AS ENUM ('PACKAGE', 'LIBRARY', 'FRAMEWORK');
+
+-- CreateTable
+CREATE TABLE "User" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "avatar" TEXT,
+    "role" "UserRole" NOT NULL DEFAULT 'USER',
+    "authProvider" "AuthProvider" NOT NULL DEFAULT 'GITHUB',
+    "githubId" TEXT,
+    "githubToken" TEXT,
+    "googleId" TEXT,
+    "bio" TEXT,
+    "website" TEXT,
+    "location" TEXT,
+    "isVerified" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "User_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Category" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "icon" TEXT,
+    "color" TEXT,
+    "parentId" TEXT,
+    "displayOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Category_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Boilerplate" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "shortDescription" VARCHAR(280),
+    "repositoryUrl" TEXT,
+    "framework" TEXT,
+    "language" TEXT,
+    "stars" INTEGER NOT NULL DEFAULT 0,
+    "downloads" INTEGER NOT NULL DEFAULT 0,
+    "views" INTEGER NOT NULL DEFAULT 0,
+    "visibility" "Visibility" NOT NULL DEFAULT 'PUBLIC',
+    "isSynced" BOOLEAN NOT NULL DEFAULT false,
+    "lastSyncedAt" TIMESTAMP(3),
+    "authorId" TEXT NOT NULL,
+    "categoryId" TEXT,
+    "forkedFromId" TEXT,
+    "currentVersion" TEXT NOT NULL DEFAULT '1.0.0',
+    "latestVersionNumber" TEXT NOT NULL DEFAULT '1.0.0',
+    "readme" TEXT,
+    "coverImage" TEXT,
+    "license" TEXT,
+    "complexity" "Complexity" DEFAULT 'INTERMEDIATE',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Boilerplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BoilerplateVersion" (
+    "id" TEXT NOT NULL,
+    "boilerplateId" TEXT NOT NULL,
+    "versionNumber" TEXT NOT NULL,
+    "changelog" TEXT,
+    "releaseNotes" TEXT,
+    "commitHash" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BoilerplateVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "File" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "boilerplateId" TEXT NOT NULL,
+    "versionId" TEXT,
+    "contentType" TEXT,
+    "size" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "File_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Comment" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "boilerplateId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "parentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Comment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UserLikes" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "boilerplateId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserLikes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Collection" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "userId" TEXT NOT NULL,
+    "isPublic" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Collection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CollectionBoilerplates" (
+    "id" TEXT NOT NULL,
+    "collectionId" TEXT NOT NULL,
+    "boilerplateId" TEXT NOT NULL,
+    "addedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CollectionBoilerplates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BoilerplateAnalytics" (
+    "id" TEXT NOT NULL,
+    "boilerplateId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "views" INTEGER NOT NULL DEFAULT 0,
+    "downloads" INTEGER NOT NULL DEFAULT 0,
+    "uniqueVisitors" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "BoilerplateAnalytics_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UserActivity" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "activityType" "ActivityType" NOT NULL,
+    "boilerplateId" TEXT,
+    "collectionId" TEXT,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserActivity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Tag" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Tag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BoilerplateTags" (
+    "id" TEXT NOT NULL,
+    "boilerplateId" TEXT NOT NULL,
+    "tagId" TEXT NOT NULL,
+
+    CONSTRAINT "BoilerplateTags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Dependency" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "version" TEXT NOT NULL,
+    "type" "DependencyType" NOT NULL,
+    "boilerplateId" TEXT NOT NULL,
+
+    CONSTRAINT "Dependency_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_email_key" ON "User"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_githubId_key" ON "User"("githubId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_googleId_key" ON "User"("googleId");
+
+-- CreateIndex
+CREATE INDEX "User_email_idx" ON "User"("email");
+
+-- CreateIndex
+CREATE INDEX "User_authProvider_idx" ON "User"("authProvider");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Category_slug_key" ON "Category"("slug");
+
+-- CreateIndex
+CREATE INDEX "Category_slug_idx" ON "Category"("slug");
+
+-- CreateIndex
+CREATE INDEX "Category_parentId_idx" ON "Category"("parentId");
+
+-- CreateIndex
+CREATE INDEX "Boilerplate_authorId_idx" ON "Boilerplate"("authorId");
+
+-- CreateIndex
+CREATE INDEX "Boilerplate_categoryId_idx" ON "Boilerplate"("categoryId");
+
+-- CreateIndex
+CREATE INDEX "Boilerplate_forkedFromId_idx" ON "Boilerplate"("forkedFromId");
+
+-- CreateIndex
+CREATE INDEX "Boilerplate_language_framework_idx" ON "Boilerplate"("language", "framework");
+
+-- CreateIndex
+CREATE INDEX "Boilerplate_visibility_idx" ON "Boilerplate"("visibility");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BoilerplateVersion_boilerplateId_versionNumber_key" ON "BoilerplateVersion"("boilerplateId", "versionNumber");
+
+-- CreateIndex
+CREATE INDEX "File_boilerplateId_idx" ON "File"("boilerplateId");
+
+-- CreateIndex
+CREATE INDEX "File_versionId_idx" ON "File"("versionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "File_boilerplateId_path_key" ON "File"("boilerplateId", "path");
+
+-- CreateIndex
+CREATE INDEX "Comment_userId_idx" ON "Comment"("userId");
+
+-- CreateIndex
+CREATE INDEX "Comment_boilerplateId_idx" ON "Comment"("boilerplateId");
+
+-- CreateIndex
+CREATE INDEX "Comment_parentId_idx" ON "Comment"("parentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserLikes_userId_boilerplateId_key" ON "UserLikes"("userId", "boilerplateId");
+
+-- CreateIndex
+CREATE INDEX "Collection_userId_idx" ON "Collection"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CollectionBoilerplates_collectionId_boilerplateId_key" ON "CollectionBoilerplates"("collectionId", "boilerplateId");
+
+-- CreateIndex
+CREATE INDEX "BoilerplateAnalytics_boilerplateId_idx" ON "BoilerplateAnalytics"("boilerplateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BoilerplateAnalytics_boilerplateId_date_key" ON "BoilerplateAnalytics"("boilerplateId", "date");
+
+-- CreateIndex
+CREATE INDEX "UserActivity_userId_idx" ON "UserActivity"("userId");
+
+-- CreateIndex
+CREATE INDEX "UserActivity_boilerplateId_idx" ON "UserActivity"("boilerplateId");
+
+-- CreateIndex
+CREATE INDEX "UserActivity_activityType_idx" ON "UserActivity"("activityType");
+
+-- CreateIndex
+CREATE INDEX "UserActivity_timestamp_idx" ON "UserActivity"("timestamp");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_name_key" ON "Tag"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_slug_key" ON "Tag"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BoilerplateTags_boilerplateId_tagId_key" ON "BoilerplateTags"("boilerplateId", "tagId");
+
+-- CreateIndex
+CREATE INDEX "Dependency_boilerplateId_idx" ON "Dependency"("boilerplateId");
+
+-- CreateIndex
+CREATE INDEX "Dependency_name_idx" ON "Dependency"("name");
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Boilerplate" ADD CONSTRAINT "Boilerplate_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Boilerplate" ADD CONSTRAINT "Boilerplate_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Boilerplate" ADD CONSTRAINT "Boilerplate_forkedFromId_fkey" FOREIGN KEY ("forkedFromId") REFERENCES "Boilerplate"("id") ON DELETE NO ACTION ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "BoilerplateVersion" ADD CONSTRAINT "BoilerplateVersion_boilerplateId_fkey" FOREIGN KEY ("boilerplateId") REFERENCES "Boilerplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "File" ADD CONSTRAINT "File_boilerplateId_fkey" FOREIGN KEY ("boilerplateId") REFERENCES "Boilerplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "File" ADD CONSTRAINT "File_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "BoilerplateVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Comment" ADD CONSTRAINT "Comment_boilerplateId_fkey" FOREIGN KEY ("boilerplateId") REFERENCES "Boilerplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Comment" ADD CONSTRAINT "Comment_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Comment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Comment" ADD CONSTRAINT "Comment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserLikes" ADD CONSTRAINT "UserLikes_boilerplateId_fkey" FOREIGN KEY ("boilerplateId") REFERENCES "Boilerplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserLikes" ADD CONSTRAINT "UserLikes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Collection" ADD CONSTRAINT "Collection_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CollectionBoilerplates" ADD CONSTRAINT "CollectionBoilerplates_boilerplateId_fkey" FOREIGN KEY ("boilerplateId") REFERENCES "Boilerplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CollectionBoilerplates" ADD CONSTRAINT "CollectionBoilerplates_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "Collection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BoilerplateAnalytics" ADD CONSTRAINT "BoilerplateAnalytics_boilerplateId_fkey" FOREIGN KEY ("boilerplateId") REFERENCES "Boilerplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserActivity" ADD CONSTRAINT "UserActivity_boilerplateId_fkey" FOREIGN KEY ("boilerplateId") REFERENCES "Boilerplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserActivity" ADD CONSTRAINT "UserActivity_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "Collection"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserActivity" ADD CONSTRAINT "UserActivity_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BoilerplateTags" ADD CONSTRAINT "BoilerplateTags_boilerplateId_fkey" FOREIGN KEY ("boilerplateId") REFERENCES "Boilerplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BoilerplateTags" ADD CONSTRAINT "BoilerplateTags_tagId_fkey" FOREIGN KEY ("tagId") REFERENCES "Tag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Dependency" ADD CONSTRAINT "Dependency_boilerplateId_fkey" FOREIGN KEY ("boilerplateId") REFERENCES "Boilerplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
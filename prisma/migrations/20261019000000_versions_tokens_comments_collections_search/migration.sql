@@ -0,0 +1,110 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "ActivityType" ADD VALUE 'COLLECT';
+ALTER TYPE "ActivityType" ADD VALUE 'UNCOLLECT';
+ALTER TYPE "ActivityType" ADD VALUE 'REORDER';
+ALTER TYPE "ActivityType" ADD VALUE 'UPDATE';
+ALTER TYPE "ActivityType" ADD VALUE 'DELETE';
+
+-- DropIndex
+DROP INDEX "File_boilerplateId_path_key";
+
+-- AlterTable
+ALTER TABLE "CollectionBoilerplates" ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Comment" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "depth" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "password" TEXT;
+
+-- CreateTable
+CREATE TABLE "PersonalAccessToken" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "scopes" TEXT[],
+    "expiresAt" TIMESTAMP(3),
+    "lastUsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PersonalAccessToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AnalyticsFlush" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AnalyticsFlush_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Boilerplate_title_trgm_idx" ON "Boilerplate" USING GIN ("title" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Boilerplate_description_trgm_idx" ON "Boilerplate" USING GIN ("description" gin_trgm_ops);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "File_versionId_path_key" ON "File"("versionId", "path");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PersonalAccessToken_tokenHash_key" ON "PersonalAccessToken"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "PersonalAccessToken_userId_idx" ON "PersonalAccessToken"("userId");
+
+-- CreateIndex
+CREATE INDEX "Collection_isPublic_idx" ON "Collection"("isPublic");
+
+-- CreateIndex
+CREATE INDEX "CollectionBoilerplates_collectionId_position_idx" ON "CollectionBoilerplates"("collectionId", "position");
+
+-- CreateIndex
+CREATE INDEX "CollectionBoilerplates_boilerplateId_idx" ON "CollectionBoilerplates"("boilerplateId");
+
+-- CreateIndex
+CREATE INDEX "AnalyticsFlush_createdAt_idx" ON "AnalyticsFlush"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "Tag_name_trgm_idx" ON "Tag" USING GIN ("name" gin_trgm_ops);
+
+-- AddForeignKey
+ALTER TABLE "PersonalAccessToken" ADD CONSTRAINT "PersonalAccessToken_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- CreateIndex (not expressible in the Prisma schema)
+-- NULL versionIds never collide in "File_versionId_path_key", so unversioned
+-- files keep their own uniqueness per boilerplate
+CREATE UNIQUE INDEX "File_boilerplateId_path_unversioned_key" ON "File"("boilerplateId", "path") WHERE "versionId" IS NULL;
+
+-- Backfill reply depth, top-level comments stay at 0
+WITH RECURSIVE "thread" AS (
+    SELECT "id", 0 AS "depth" FROM "Comment" WHERE "parentId" IS NULL
+    UNION ALL
+    SELECT "reply"."id", "thread"."depth" + 1
+    FROM "Comment" AS "reply"
+    JOIN "thread" ON "reply"."parentId" = "thread"."id"
+)
+UPDATE "Comment" SET "depth" = "thread"."depth"
+FROM "thread"
+WHERE "Comment"."id" = "thread"."id" AND "thread"."depth" > 0;
+
+-- Backfill collection order, items keep the order they were added in
+UPDATE "CollectionBoilerplates" SET "position" = "ordered"."position"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "collectionId" ORDER BY "addedAt", "id") - 1 AS "position"
+    FROM "CollectionBoilerplates"
+) AS "ordered"
+WHERE "CollectionBoilerplates"."id" = "ordered"."id";
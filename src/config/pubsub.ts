@@ -0,0 +1,65 @@
+import { Prisma } from '@prisma/client';
+import logger from '../utils/logger';
+import { RedisPubSub } from '../utils/redisPubSub';
+import { redis } from './redis';
+
+// Keeps events apart when several environments share one Redis
+const PUBSUB_CHANNEL_PREFIX = process.env.PUBSUB_CHANNEL_PREFIX || 'pubsub:';
+
+// Payloads are keyed by the subscription field they resolve
+export const TOPICS = {
+  BOILERPLATE_LIKED: 'BOILERPLATE_LIKED',
+  BOILERPLATE_PUBLISHED: 'BOILERPLATE_PUBLISHED',
+  COMMENT_ADDED: 'COMMENT_ADDED',
+  VERSION_PUBLISHED: 'VERSION_PUBLISHED',
+} as const;
+
+export type Topic = (typeof TOPICS)[keyof typeof TOPICS];
+
+// Subscribed connections can't run other commands, hence the duplicate
+const pubsub = new RedisPubSub(redis, redis.duplicate(), PUBSUB_CHANNEL_PREFIX);
+
+/**
+ * Publishes an event to subscribers. Failures are logged and never thrown,
+ * the mutation that triggered the event has already succeeded.
+ * @param topic Event topic
+ * @param payload Event payload
+ */
+const publish = (topic: Topic, payload: Record<string, unknown>) => {
+  pubsub.publish(topic, payload).catch((error) => {
+    logger.error(`Failed to publish ${topic} event:`, error);
+  });
+};
+
+/**
+ * Keeps the scalar columns of a row. Events are fanned out to every
+ * subscriber through Redis, so they never carry relations (files, users with
+ * their password hash); field resolvers load those per subscriber.
+ */
+const scalars = <T extends object>(
+  row: T,
+  fields: Record<string, string>
+): Partial<T> =>
+  Object.fromEntries(
+    Object.values(fields)
+      .filter((field) => field in row)
+      .map((field) => [field, row[field as keyof T]])
+  ) as Partial<T>;
+
+const boilerplateEvent = <T extends object>(boilerplate: T) =>
+  scalars(boilerplate, Prisma.BoilerplateScalarFieldEnum);
+
+const commentEvent = <T extends object>(comment: T) =>
+  scalars(comment, Prisma.CommentScalarFieldEnum);
+
+// isCurrent compares against the boilerplate's current version
+const versionEvent = <
+  T extends { boilerplate: { currentVersion: string } },
+>(
+  version: T
+) => ({
+  ...scalars(version, Prisma.BoilerplateVersionScalarFieldEnum),
+  boilerplate: { currentVersion: version.boilerplate.currentVersion },
+});
+
+export { pubsub, publish, boilerplateEvent, commentEvent, versionEvent };
@@ -0,0 +1,119 @@
+// src/directives/auth.directive.ts
+import {
+  defaultFieldResolver,
+  GraphQLFieldConfig,
+  GraphQLResolveInfo,
+  GraphQLSchema,
+} from "graphql";
+import { getDirective, MapperKind, mapSchema } from "@graphql-tools/utils";
+import { UserRole } from "@prisma/client";
+import { Context as AppContext } from "../types/context";
+import { AuthenticationError, AuthorizationError } from "../utils/errorHandler";
+import logger from "../utils/logger";
+import { hasRole, isUserRole } from "../policies/role.policy";
+import {
+  assertScope,
+  isTokenScope,
+  TokenScope,
+} from "../policies/scope.policy";
+
+/**
+ * Enforces the access directives declared in base.graphql:
+ * - @auth: the request must be authenticated
+ * - @hasRole(role): authenticated with `role` or above (ADMIN > MODERATOR > USER)
+ * - @hasScope(scope): personal access tokens must carry `scope`, sessions and
+ *   anonymous requests are not limited (combine with @auth to require a user)
+ */
+
+interface FieldRequirements {
+  authenticated: boolean;
+  role?: UserRole;
+  scope?: TokenScope;
+}
+
+/**
+ * Reads the directives of a field, unknown roles and scopes fail at startup
+ * rather than silently letting everyone through
+ */
+const getRequirements = (
+  schema: GraphQLSchema,
+  fieldConfig: GraphQLFieldConfig<unknown, AppContext>,
+  coordinate: string
+): FieldRequirements | null => {
+  const auth = getDirective(schema, fieldConfig, "auth")?.[0];
+  const role = getDirective(schema, fieldConfig, "hasRole")?.[0]?.role;
+  const scope = getDirective(schema, fieldConfig, "hasScope")?.[0]?.scope;
+
+  if (!auth && !role && !scope) return null;
+
+  if (role !== undefined && !isUserRole(role)) {
+    throw new Error(`Unknown role "${role}" in @hasRole on ${coordinate}`);
+  }
+  if (scope !== undefined && !isTokenScope(scope)) {
+    throw new Error(`Unknown scope "${scope}" in @hasScope on ${coordinate}`);
+  }
+
+  return { authenticated: !!auth || !!role, role, scope };
+};
+
+const enforce = (
+  requirements: FieldRequirements,
+  context: AppContext,
+  info: GraphQLResolveInfo
+) => {
+  const user = context?.user;
+  const operation = `${info.parentType.name}.${info.fieldName}`;
+
+  if (requirements.authenticated && !user) {
+    logger.warn("[Auth Directive] No authenticated user found", { operation });
+    throw new AuthenticationError("Authentication required");
+  }
+
+  if (requirements.role && !hasRole(user, requirements.role)) {
+    logger.warn("[Auth Directive] Unauthorized role access", {
+      userId: user?.sub,
+      userRole: user?.role,
+      requiredRole: requirements.role,
+      operation,
+    });
+    throw new AuthorizationError(`Requires ${requirements.role} role`);
+  }
+
+  if (requirements.scope) {
+    assertScope(user, requirements.scope);
+  }
+};
+
+/**
+ * Wraps the resolvers (and subscribers) of every field carrying an access
+ * directive so the checks run before any resolver code
+ * @param schema Executable schema with resolvers attached
+ * @returns Schema enforcing @auth, @hasRole and @hasScope
+ */
+export const authDirectiveTransformer = (schema: GraphQLSchema): GraphQLSchema =>
+  mapSchema(schema, {
+    [MapperKind.OBJECT_FIELD]: (fieldConfig, fieldName, typeName) => {
+      const requirements = getRequirements(
+        schema,
+        fieldConfig,
+        `${typeName}.${fieldName}`
+      );
+      if (!requirements) return fieldConfig;
+
+      const { resolve = defaultFieldResolver, subscribe } = fieldConfig;
+
+      return {
+        ...fieldConfig,
+        resolve(source, args, context, info) {
+          enforce(requirements, context, info);
+          return resolve(source, args, context, info);
+        },
+        ...(subscribe && {
+          subscribe(source, args, context, info) {
+            enforce(requirements, context, info);
+            return subscribe(source, args, context, info);
+          },
+        }),
+      };
+    },
+  });
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthService } from '../services/auth.service';
+import { isPersonalAccessToken, TokenService } from '../services/token.service';
 import logger from '../utils/logger';
 import jwt from 'jsonwebtoken';
 
@@ -10,12 +11,15 @@ declare global {
         sub: string;
         email: string;
         role: string;
+        jti?: string;
+        scopes?: string[];
       };
     }
   }
 }
 
 const authService = new AuthService();
+const tokenService = new TokenService();
 
 export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -36,24 +40,54 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
       return res.status(401).json({ message: 'No token provided' });
     }
 
+    if (isPersonalAccessToken(token)) {
+      const user = await tokenService.authenticate(token);
+      if (!user) {
+        logger.warn('[Auth Middleware] Invalid personal access token');
+        return res.status(401).json({ message: 'Invalid token' });
+      }
+
+      req.user = user;
+      logger.info('[Auth Middleware] Personal access token accepted', {
+        userId: user.sub,
+        scopes: user.scopes
+      });
+      return next();
+    }
+
     try {
       const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your_jwt_secret_key') as {
         userId: string;
         email: string;
         role: string;
         sub: string;
+        jti?: string;
       };
 
       logger.info('[Auth Middleware] Token decoded successfully', { 
         decoded
       });
 
+      if (decoded.jti && await authService.isTokenRevoked(decoded.jti)) {
+        logger.warn('[Auth Middleware] Token belongs to a revoked session', {
+          userId: decoded.sub
+        });
+        return res.status(401).json({ message: 'Token has been revoked' });
+      }
+
       req.user = {
         sub: decoded.sub,
         email: decoded.email,
-        role: decoded.role
+        role: decoded.role,
+        jti: decoded.jti
       };
 
+      if (decoded.jti) {
+        authService.touchSession(decoded.sub, decoded.jti).catch((error) =>
+          logger.warn('[Auth Middleware] Failed to update session', { error })
+        );
+      }
+
       logger.info('[Auth Middleware] User attached to request', {
         user: req.user
       });
@@ -0,0 +1,119 @@
+import { CloseCode } from 'graphql-ws';
+import type { Context as WsContext } from 'graphql-ws';
+import type { Extra } from 'graphql-ws/lib/use/ws';
+import { AuthService } from '../services/auth.service';
+import { isPersonalAccessToken, TokenService } from '../services/token.service';
+import { User } from '../types/context';
+import logger from '../utils/logger';
+
+// How often long-lived sockets check that their token is still valid
+const WS_AUTH_REVALIDATE_INTERVAL = parseInt(
+  process.env.WS_AUTH_REVALIDATE_INTERVAL || '60'
+);
+
+export type ConnectionParams = {
+  authorization?: string;
+};
+
+export type SubscriptionExtra = {
+  user?: User;
+  revalidateTimer?: NodeJS.Timeout;
+};
+
+type SubscriptionContext = WsContext<ConnectionParams, Extra & Partial<SubscriptionExtra>>;
+
+const authService = new AuthService();
+const tokenService = new TokenService();
+
+/**
+ * Resolves the user from the `authorization` connection param, sent by clients
+ * in `connection_init` as `{ authorization: "Bearer <token>" }`
+ * @param connectionParams Payload of the `connection_init` message
+ * @returns The user, undefined for anonymous connections, or null when the
+ * token is invalid, expired or revoked
+ */
+export const authenticateConnection = async (
+  connectionParams?: ConnectionParams
+): Promise<User | undefined | null> => {
+  const authorization = connectionParams?.authorization;
+  if (!authorization) return undefined;
+
+  const token = typeof authorization === 'string' ? authorization.split(' ')[1] : undefined;
+  if (!token) return null;
+
+  if (isPersonalAccessToken(token)) {
+    return tokenService.authenticate(token);
+  }
+
+  // Also rejects expired tokens
+  const decoded = authService.verifyToken(token);
+  if (!decoded) return null;
+
+  if (decoded.jti && (await authService.isTokenRevoked(decoded.jti))) {
+    return null;
+  }
+
+  return {
+    sub: decoded.sub,
+    email: decoded.email,
+    role: decoded.role,
+    jti: decoded.jti,
+  };
+};
+
+const stopRevalidation = (ctx: SubscriptionContext) => {
+  if (ctx.extra.revalidateTimer) {
+    clearInterval(ctx.extra.revalidateTimer);
+    ctx.extra.revalidateTimer = undefined;
+  }
+};
+
+/**
+ * Re-checks the connection token on an interval and closes the socket once it
+ * expires or its session or access token is revoked
+ */
+const startRevalidation = (ctx: SubscriptionContext) => {
+  ctx.extra.revalidateTimer = setInterval(async () => {
+    try {
+      const user = await authenticateConnection(ctx.connectionParams);
+      if (user) return;
+
+      logger.info('[WS Auth] Token no longer valid, closing socket', {
+        userId: ctx.extra.user?.sub,
+      });
+      stopRevalidation(ctx);
+      ctx.extra.socket.close(CloseCode.Unauthorized, 'Unauthorized');
+    } catch (error: any) {
+      logger.error('[WS Auth] Revalidation failed', { error: error.message });
+    }
+  }, WS_AUTH_REVALIDATE_INTERVAL * 1000);
+};
+
+/**
+ * `graphql-ws` server hooks authenticating subscriptions. Connections without
+ * a token are accepted as anonymous, the schema directives decide what they
+ * may subscribe to.
+ */
+export const subscriptionAuth = {
+  onConnect: async (ctx: SubscriptionContext) => {
+    const user = await authenticateConnection(ctx.connectionParams);
+    if (user === null) {
+      logger.warn('[WS Auth] Connection rejected, invalid or expired token');
+      return false;
+    }
+
+    ctx.extra.user = user;
+    if (user) {
+      startRevalidation(ctx);
+    }
+
+    logger.info('[WS Auth] Connection accepted', {
+      user: user ? `ID: ${user.sub}` : 'anonymous',
+    });
+    return true;
+  },
+
+  onClose: (ctx: SubscriptionContext) => {
+    stopRevalidation(ctx);
+  },
+};
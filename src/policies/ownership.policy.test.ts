@@ -0,0 +1,139 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { UserRole, Visibility } from "@prisma/client";
+import { User } from "../types/context";
+import { ErrorCode } from "../utils/errorHandler";
+import {
+  assertCanChangeBoilerplate,
+  assertCanManage,
+  canManage,
+} from "./ownership.policy";
+
+const user = (sub: string, role: UserRole): User => ({
+  sub,
+  email: `${sub}@example.com`,
+  role,
+});
+
+const author = user("author", UserRole.USER);
+const otherUser = user("other", UserRole.USER);
+const moderator = user("moderator", UserRole.MODERATOR);
+const admin = user("admin", UserRole.ADMIN);
+
+const boilerplate = (visibility: Visibility) => ({
+  id: "boilerplate",
+  authorId: author.sub,
+  visibility,
+});
+
+const errorCode = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (error: any) {
+    return error.extensions?.code;
+  }
+  return null;
+};
+
+describe("canManage", () => {
+  it("allows the owner", () => {
+    assert.equal(canManage(author.sub, author), true);
+  });
+
+  it("rejects other users", () => {
+    assert.equal(canManage(author.sub, otherUser), false);
+  });
+
+  it("rejects anonymous requests", () => {
+    assert.equal(canManage(author.sub, undefined), false);
+  });
+
+  it("allows moderators and admins", () => {
+    assert.equal(canManage(author.sub, moderator), true);
+    assert.equal(canManage(author.sub, admin), true);
+  });
+
+  it("rejects unknown roles", () => {
+    assert.equal(canManage(author.sub, { ...otherUser, role: "GUEST" }), false);
+  });
+});
+
+describe("assertCanManage", () => {
+  it("throws UNAUTHORIZED for other users", () => {
+    assert.equal(
+      errorCode(() => assertCanManage(author.sub, otherUser, "edit this")),
+      ErrorCode.UNAUTHORIZED
+    );
+  });
+
+  it("passes for the owner, moderators and admins", () => {
+    for (const actor of [author, moderator, admin]) {
+      assert.doesNotThrow(() => assertCanManage(author.sub, actor, "edit this"));
+    }
+  });
+});
+
+describe("assertCanChangeBoilerplate", () => {
+  for (const visibility of [Visibility.PUBLIC, Visibility.UNLISTED]) {
+    describe(`${visibility} boilerplate`, () => {
+      it("allows the author, moderators and admins", () => {
+        for (const actor of [author, moderator, admin]) {
+          const target = boilerplate(visibility);
+          assert.equal(
+            assertCanChangeBoilerplate(target, actor, "update it"),
+            target
+          );
+        }
+      });
+
+      it("throws UNAUTHORIZED for other users", () => {
+        assert.equal(
+          errorCode(() =>
+            assertCanChangeBoilerplate(
+              boilerplate(visibility),
+              otherUser,
+              "update it"
+            )
+          ),
+          ErrorCode.UNAUTHORIZED
+        );
+      });
+    });
+  }
+
+  describe("PRIVATE boilerplate", () => {
+    it("allows the author and admins", () => {
+      for (const actor of [author, admin]) {
+        assert.doesNotThrow(() =>
+          assertCanChangeBoilerplate(
+            boilerplate(Visibility.PRIVATE),
+            actor,
+            "update it"
+          )
+        );
+      }
+    });
+
+    it("looks missing to other users and moderators", () => {
+      for (const actor of [otherUser, moderator]) {
+        assert.equal(
+          errorCode(() =>
+            assertCanChangeBoilerplate(
+              boilerplate(Visibility.PRIVATE),
+              actor,
+              "update it"
+            )
+          ),
+          ErrorCode.NOT_FOUND
+        );
+      }
+    });
+  });
+
+  it("throws NOT_FOUND for a missing boilerplate", () => {
+    assert.equal(
+      errorCode(() => assertCanChangeBoilerplate(null, admin, "update it")),
+      ErrorCode.NOT_FOUND
+    );
+  });
+});
@@ -0,0 +1,78 @@
+// src/policies/ownership.policy.ts
+import { UserRole, Visibility } from "@prisma/client";
+import { User } from "../types/context";
+import {
+  AuthorizationError,
+  CustomError,
+  ErrorCode,
+} from "../utils/errorHandler";
+import logger from "../utils/logger";
+import { canViewBoilerplate } from "./visibility.policy";
+import { hasRole } from "./role.policy";
+
+/**
+ * Who can change content (boilerplates and their files, versions, tags and
+ * comments): the user who owns it, moderators and admins. Moderators only
+ * act on boilerplates they can see, so private ones stay with their author
+ * and admins.
+ */
+
+/**
+ * Whether the user may modify or delete content owned by `ownerId`
+ * @param ownerId Author of the boilerplate, comment, etc.
+ * @param user Current user, if authenticated
+ */
+export const canManage = (ownerId: string, user?: User): boolean => {
+  if (!user) return false;
+  return user.sub === ownerId || hasRole(user, UserRole.MODERATOR);
+};
+
+/**
+ * Throws unless the user may modify or delete content owned by `ownerId`
+ * @param ownerId Author of the boilerplate, comment, etc.
+ * @param user Current user, if authenticated
+ * @param action Short description used in the error, e.g. "update this boilerplate"
+ * @throws AuthorizationError for anyone but the owner, moderators and admins
+ */
+export const assertCanManage = (
+  ownerId: string,
+  user: User | undefined,
+  action: string
+): void => {
+  if (canManage(ownerId, user)) return;
+
+  logger.warn("[Ownership Policy] Action denied", {
+    userId: user?.sub,
+    role: user?.role,
+    ownerId,
+    action,
+  });
+  throw new AuthorizationError(
+    `Only the author, moderators and admins can ${action}`
+  );
+};
+
+/**
+ * Checks a boilerplate (or its files, versions, tags) may be changed
+ * @param boilerplate Loaded boilerplate, null when missing
+ * @param user Acting user
+ * @param action Short description used in the error
+ * @throws CustomError NOT_FOUND when missing or hidden from the user,
+ * moderators included
+ * @throws AuthorizationError unless author, moderator or admin
+ */
+export const assertCanChangeBoilerplate = <
+  T extends { authorId: string; visibility: Visibility },
+>(
+  boilerplate: T | null,
+  user: User,
+  action: string
+): T => {
+  // Private boilerplates stay indistinguishable from missing ones
+  if (!boilerplate || !canViewBoilerplate(boilerplate, user)) {
+    throw new CustomError("Boilerplate not found", ErrorCode.NOT_FOUND);
+  }
+  assertCanManage(boilerplate.authorId, user, action);
+
+  return boilerplate;
+};
@@ -0,0 +1,28 @@
+// src/policies/role.policy.ts
+import { UserRole } from "@prisma/client";
+import { User } from "../types/context";
+
+/**
+ * Roles are hierarchical: ADMIN > MODERATOR > USER. A user holding a role
+ * passes every check for the roles below it.
+ */
+
+const ROLE_HIERARCHY: string[] = [
+  UserRole.USER,
+  UserRole.MODERATOR,
+  UserRole.ADMIN,
+];
+
+export const isUserRole = (role: string): role is UserRole =>
+  ROLE_HIERARCHY.includes(role);
+
+/**
+ * Whether the user holds `role` or a role above it
+ * @param user Current user, if authenticated
+ * @param role Minimum required role
+ */
+export const hasRole = (user: User | undefined, role: UserRole): boolean => {
+  if (!user) return false;
+  const rank = ROLE_HIERARCHY.indexOf(user.role);
+  return rank !== -1 && rank >= ROLE_HIERARCHY.indexOf(role);
+};
@@ -0,0 +1,113 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { UserRole } from "@prisma/client";
+import { User } from "../types/context";
+import { ErrorCode } from "../utils/errorHandler";
+import {
+  assertScope,
+  assertSessionAuth,
+  hasScope,
+  isTokenScope,
+  TOKEN_SCOPES,
+  TokenScope,
+} from "./scope.policy";
+
+const session: User = {
+  sub: "user",
+  email: "user@example.com",
+  role: UserRole.USER,
+};
+
+const token = (...scopes: string[]): User => ({ ...session, scopes });
+
+const errorCode = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (error: any) {
+    return error.extensions?.code;
+  }
+  return null;
+};
+
+describe("hasScope", () => {
+  it("denies anonymous users", () => {
+    for (const scope of TOKEN_SCOPES) {
+      assert.equal(hasScope(undefined, scope), false);
+    }
+  });
+
+  it("never limits sessions", () => {
+    for (const scope of TOKEN_SCOPES) {
+      assert.equal(hasScope(session, scope), true);
+    }
+  });
+
+  it("lets broader scopes include narrower ones", () => {
+    const granted: Record<TokenScope, TokenScope[]> = {
+      "boilerplate:read": ["boilerplate:read"],
+      "boilerplate:write": ["boilerplate:read", "boilerplate:write"],
+      admin: ["boilerplate:read", "boilerplate:write", "admin"],
+    };
+
+    for (const scope of TOKEN_SCOPES) {
+      for (const required of TOKEN_SCOPES) {
+        assert.equal(
+          hasScope(token(scope), required),
+          granted[scope].includes(required),
+          `${scope} -> ${required}`
+        );
+      }
+    }
+  });
+
+  it("ignores unknown scopes and tokens without scopes", () => {
+    assert.equal(
+      hasScope(token("boilerplate:delete"), "boilerplate:read"),
+      false
+    );
+    assert.equal(hasScope(token(), "boilerplate:read"), false);
+  });
+});
+
+describe("isTokenScope", () => {
+  it("accepts only known scopes", () => {
+    assert.equal(isTokenScope("boilerplate:write"), true);
+    assert.equal(isTokenScope("boilerplate:*"), false);
+  });
+});
+
+describe("assertScope", () => {
+  it("passes sessions, anonymous users and sufficient tokens", () => {
+    assert.equal(errorCode(() => assertScope(session, "admin")), null);
+    assert.equal(errorCode(() => assertScope(undefined, "admin")), null);
+    assert.equal(
+      errorCode(() => assertScope(token("admin"), "boilerplate:write")),
+      null
+    );
+  });
+
+  it("rejects a token missing the scope", () => {
+    const reader = token("boilerplate:read");
+    assert.equal(
+      errorCode(() => assertScope(reader, "boilerplate:write")),
+      ErrorCode.UNAUTHORIZED
+    );
+  });
+});
+
+describe("assertSessionAuth", () => {
+  it("passes sessions", () => {
+    assert.equal(errorCode(() => assertSessionAuth(session)), null);
+  });
+
+  it("rejects personal access tokens, whatever their scopes", () => {
+    assert.equal(
+      errorCode(() => assertSessionAuth(token("admin"))),
+      ErrorCode.UNAUTHORIZED
+    );
+    assert.equal(
+      errorCode(() => assertSessionAuth(token())),
+      ErrorCode.UNAUTHORIZED
+    );
+  });
+});
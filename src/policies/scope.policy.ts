@@ -0,0 +1,71 @@
+// src/policies/scope.policy.ts
+import { User } from "../types/context";
+import { AuthorizationError } from "../utils/errorHandler";
+import logger from "../utils/logger";
+
+/**
+ * Scopes limit what a personal access token can do. Browser sessions carry
+ * no scopes and are never limited. Broader scopes include narrower ones:
+ * admin > boilerplate:write > boilerplate:read.
+ */
+
+export const TOKEN_SCOPES = [
+  "boilerplate:read",
+  "boilerplate:write",
+  "admin",
+] as const;
+
+export type TokenScope = (typeof TOKEN_SCOPES)[number];
+
+const IMPLIED_SCOPES: Record<TokenScope, TokenScope[]> = {
+  "boilerplate:read": ["boilerplate:read"],
+  "boilerplate:write": ["boilerplate:write", "boilerplate:read"],
+  admin: [...TOKEN_SCOPES],
+};
+
+export const isTokenScope = (scope: string): scope is TokenScope =>
+  (TOKEN_SCOPES as readonly string[]).includes(scope);
+
+/**
+ * Whether the user's credentials allow an operation needing `scope`
+ * @param user Current user, if authenticated
+ * @param scope Required scope
+ */
+export const hasScope = (user: User | undefined, scope: TokenScope): boolean => {
+  if (!user) return false;
+  if (!user.scopes) return true;
+
+  return user.scopes.some(
+    (granted) => isTokenScope(granted) && IMPLIED_SCOPES[granted].includes(scope)
+  );
+};
+
+/**
+ * @throws AuthorizationError when a personal access token lacks `scope`
+ */
+export const assertScope = (user: User | undefined, scope: TokenScope): void => {
+  if (!user || hasScope(user, scope)) return;
+
+  logger.warn("[Scope Policy] Token is missing a required scope", {
+    userId: user.sub,
+    scope,
+    granted: user.scopes,
+  });
+  throw new AuthorizationError(`Token is missing the ${scope} scope`);
+};
+
+/**
+ * Account management (tokens, passwords, linked providers) needs a real
+ * sign-in, a leaked token must not be able to mint more tokens
+ * @throws AuthorizationError when authenticated with a personal access token
+ */
+export const assertSessionAuth = (user: User | undefined): void => {
+  if (!user?.scopes) return;
+
+  logger.warn("[Scope Policy] Personal access token used for account action", {
+    userId: user.sub,
+  });
+  throw new AuthorizationError(
+    "This action requires signing in, personal access tokens are not accepted"
+  );
+};
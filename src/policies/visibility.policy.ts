@@ -0,0 +1,83 @@
+// src/policies/visibility.policy.ts
+import { Prisma, Visibility } from "@prisma/client";
+import { User } from "../types/context";
+
+/**
+ * Who can see a boilerplate:
+ * - PUBLIC: everyone, listed and searchable
+ * - UNLISTED: everyone holding the id, never listed or searchable
+ * - PRIVATE: only the author and admins
+ * Authors always see their own boilerplates, in lists too.
+ */
+
+const isAdmin = (viewer?: User) => viewer?.role === "ADMIN";
+
+/**
+ * Whether a single boilerplate may be read by the viewer (lookup by id)
+ * @param boilerplate Boilerplate visibility and author
+ * @param viewer Current user, if authenticated
+ */
+export const canViewBoilerplate = (
+  boilerplate: { visibility: Visibility; authorId: string },
+  viewer?: User
+): boolean => {
+  if (boilerplate.visibility !== Visibility.PRIVATE) return true;
+  return boilerplate.authorId === viewer?.sub || isAdmin(viewer);
+};
+
+/**
+ * Prisma filter for boilerplates the viewer may see in listings and search
+ * @param viewer Current user, if authenticated
+ */
+export const listableBoilerplatesWhere = (
+  viewer?: User
+): Prisma.BoilerplateWhereInput => {
+  const visibilities: Visibility[] = isAdmin(viewer)
+    ? [Visibility.PUBLIC, Visibility.PRIVATE]
+    : [Visibility.PUBLIC];
+
+  if (!viewer) return { visibility: { in: visibilities } };
+
+  return {
+    OR: [{ visibility: { in: visibilities } }, { authorId: viewer.sub }],
+  };
+};
+
+/**
+ * Raw SQL twin of `listableBoilerplatesWhere`, for queries Prisma cannot
+ * express such as trigram search
+ * @param viewer Current user, if authenticated
+ * @param alias Alias of the "Boilerplate" table in the query
+ */
+export const listableBoilerplatesSql = (
+  viewer?: User,
+  alias = "b"
+): Prisma.Sql => {
+  const visibilities: Visibility[] = isAdmin(viewer)
+    ? [Visibility.PUBLIC, Visibility.PRIVATE]
+    : [Visibility.PUBLIC];
+  const visible = Prisma.sql`${Prisma.raw(
+    `"${alias}"."visibility"`
+  )}::text IN (${Prisma.join(visibilities)})`;
+
+  if (!viewer) return visible;
+
+  return Prisma.sql`(${visible} OR ${Prisma.raw(
+    `"${alias}"."authorId"`
+  )} = ${viewer.sub})`;
+};
+
+/**
+ * Whether a collection may be read by the viewer. Private collections are
+ * only visible to their owner and admins; the boilerplates inside still go
+ * through `listableBoilerplatesWhere`.
+ * @param collection Collection privacy and owner
+ * @param viewer Current user, if authenticated
+ */
+export const canViewCollection = (
+  collection: { isPublic: boolean; userId: string },
+  viewer?: User
+): boolean => {
+  if (collection.isPublic) return true;
+  return collection.userId === viewer?.sub || isAdmin(viewer);
+};
@@ -18,15 +18,21 @@ import {
   TextMatchMode,
 } from "../types/boilerplate.type";
 import { BoilerplateService } from "../services/boilerplate.service";
+import { VerificationService } from "../services/verification.service";
+import { AnalyticsService } from "../services/analytics.service";
+import { UserService } from "../services/user.service";
 import logger from "../utils/logger";
 import {
   CustomError,
   AuthenticationError,
   DatabaseError,
+  ErrorCode,
   handleError,
 } from "../utils/errorHandler";
 import { Context as AppContext } from "../types/context";
 import { Category } from "../types/category.type";
+import { FileUpload } from "graphql-upload-minimal";
+import { canViewBoilerplate } from "../policies/visibility.policy";
 
 const encodeCursor = (id: string): string => {
   return Buffer.from(id.toString()).toString("base64");
@@ -40,9 +46,15 @@ const decodeCursor = (cursor: string): string => {
 export class BoilerplateResolver {
   private static _instance: BoilerplateResolver;
   private boilerplateService: BoilerplateService;
+  private verificationService: VerificationService;
+  private analyticsService: AnalyticsService;
+  private userService: UserService;
 
   private constructor() {
     this.boilerplateService = new BoilerplateService();
+    this.verificationService = new VerificationService();
+    this.analyticsService = new AnalyticsService();
+    this.userService = new UserService();
   }
 
   public static get instance(): BoilerplateResolver {
@@ -53,9 +65,33 @@ export class BoilerplateResolver {
   }
 
   @Query(() => Boilerplate, { nullable: true })
-  async boilerplate(@Args("id") id: string) {
+  async boilerplate(@Args("id") id: string, @Context() { user }: AppContext) {
     logger.info("[Boilerplate Resolver] Fetching boilerplate", { id });
-    return await this.boilerplateService.findBoilerplateById(id);
+    const boilerplate = await this.boilerplateService.findBoilerplateById(id);
+
+    if (boilerplate && !canViewBoilerplate(boilerplate, user)) {
+      logger.warn("[Boilerplate Resolver] Boilerplate hidden by visibility", {
+        id,
+        userId: user?.sub,
+      });
+      return null;
+    }
+    return boilerplate;
+  }
+
+  // Query.boilerplate, counted as a view unlike nested lookups such as forkedFrom
+  async viewBoilerplate(id: string, context: AppContext) {
+    const boilerplate = await this.boilerplate(id, context);
+
+    if (boilerplate) {
+      // Buffered in Redis and not awaited, the response never waits on it
+      void this.analyticsService.recordView(boilerplate.id, {
+        userId: context.user?.sub,
+        ip: context.req?.ip,
+        userAgent: context.req?.headers["user-agent"],
+      });
+    }
+    return boilerplate;
   }
 
   @Query(() => BoilerplateConnection)
@@ -78,7 +114,8 @@ export class BoilerplateResolver {
       type: () => BoilerplateOrderByInput,
       nullable: true,
     })
-    orderBy?: BoilerplateOrderByInput
+    orderBy?: BoilerplateOrderByInput,
+    @Context() { user }: AppContext = {}
   ) {
     logger.info(
       "[Boilerplate Resolver] Searching boilerplates with fuzzy matching",
@@ -103,6 +140,7 @@ export class BoilerplateResolver {
         pagination: { first: limit, afterId },
         where,
         orderBy,
+        viewer: user,
       });
 
       const hasNextPage = searchResults.items.length > first;
@@ -144,7 +182,8 @@ export class BoilerplateResolver {
       type: () => BoilerplateOrderByInput,
       nullable: true,
     })
-    orderBy?: BoilerplateOrderByInput
+    orderBy?: BoilerplateOrderByInput,
+    @Context() { user }: AppContext = {}
   ) {
     logger.info(
       "[Boilerplate Resolver] Fetching boilerplates with cursor pagination",
@@ -165,6 +204,7 @@ export class BoilerplateResolver {
           afterId,
           where,
           orderBy,
+          viewer: user,
         });
 
       const hasNextPage = boilerplates.length > first;
@@ -175,7 +215,10 @@ export class BoilerplateResolver {
       }));
       const endCursor =
         edges.length > 0 ? edges[edges.length - 1].cursor : null;
-      const totalCount = await this.boilerplateService.countBoilerplates(where);
+      const totalCount = await this.boilerplateService.countBoilerplates(
+        where,
+        user
+      );
 
       return {
         edges,
@@ -193,10 +236,54 @@ export class BoilerplateResolver {
     }
   }
 
+  @Query(() => [Boilerplate])
+  async allBoilerplates(
+    @Args({ name: "skip", type: () => Int, nullable: true }) skip?: number,
+    @Args({ name: "take", type: () => Int, nullable: true }) take?: number,
+    @Args({ name: "where", type: () => BoilerplateWhereInput, nullable: true })
+    where?: BoilerplateWhereInput,
+    @Args({
+      name: "orderBy",
+      type: () => BoilerplateOrderByInput,
+      nullable: true,
+    })
+    orderBy?: BoilerplateOrderByInput,
+    @Context() { user }: AppContext = {}
+  ) {
+    logger.info(
+      "[Boilerplate Resolver] Fetching boilerplates with offset pagination",
+      {
+        pagination: { skip, take },
+        filters: where,
+        orderBy,
+      }
+    );
+
+    try {
+      return await this.boilerplateService.findBoilerplates({
+        skip,
+        take: take ?? 10,
+        where,
+        orderBy,
+        viewer: user,
+      });
+    } catch (error: any) {
+      logger.error("[Boilerplate Resolver] Failed to fetch all boilerplates", {
+        error: error.message,
+      });
+      throw handleError(error);
+    }
+  }
+
   @Mutation(() => Boilerplate)
-  async createBoilerplate(data: BoilerplateInput, { user }: AppContext) {
+  async createBoilerplate(
+    data: BoilerplateInput,
+    { user }: AppContext,
+    zipFile?: Promise<FileUpload>
+  ) {
     logger.info("[Boilerplate Resolver] Create boilerplate attempt", {
-      data: data,
+      data: { ...data, files: data.files?.length, zipFile: !!data.zipFile },
+      hasZipFile: !!(zipFile || data.zipFile),
     });
 
     if (!user) {
@@ -206,9 +293,12 @@ export class BoilerplateResolver {
       );
     }
 
+    await this.verificationService.assertCanPublish(user.sub);
+
     try {
       const boilerplate = await this.boilerplateService.createBoilerplate({
         ...data,
+        zipFile: zipFile || data.zipFile,
         authorId: user.sub,
       });
 
@@ -254,7 +344,7 @@ export class BoilerplateResolver {
     }
 
     try {
-      return await this.boilerplateService.updateBoilerplate(id, data);
+      return await this.boilerplateService.updateBoilerplate(id, data, user);
     } catch (error: any) {
       logger.error("[Boilerplate Resolver] Failed to update boilerplate", {
         userId: user.sub,
@@ -283,7 +373,7 @@ export class BoilerplateResolver {
     }
 
     try {
-      await this.boilerplateService.deleteBoilerplate(id);
+      await this.boilerplateService.deleteBoilerplate(id, user);
       return true;
     } catch (error: any) {
       logger.error("[Boilerplate Resolver] Failed to delete boilerplate", {
@@ -295,6 +385,51 @@ export class BoilerplateResolver {
     }
   }
 
+  @Mutation(() => Boilerplate)
+  async forkBoilerplate(
+    @Args("id") id: string,
+    @Args("title", { nullable: true }) title: string | undefined,
+    @Context() { user }: AppContext
+  ) {
+    logger.info("[Boilerplate Resolver] Fork boilerplate attempt", {
+      userId: user?.sub,
+      boilerplateId: id,
+    });
+
+    if (!user) {
+      logger.warn("[Boilerplate Resolver] Unauthenticated fork attempt");
+      throw new AuthenticationError(
+        "Authentication required to fork boilerplate"
+      );
+    }
+
+    await this.verificationService.assertCanPublish(user.sub);
+
+    try {
+      return await this.boilerplateService.forkBoilerplate(id, user.sub, title);
+    } catch (error: any) {
+      logger.error("[Boilerplate Resolver] Failed to fork boilerplate", {
+        userId: user.sub,
+        boilerplateId: id,
+        error: error.message,
+      });
+      throw handleError(error);
+    }
+  }
+
+  async forks(id: string, { user }: AppContext) {
+    return await this.boilerplateService.findForks(id, user);
+  }
+
+  // Queries include the author, subscription events only carry authorId
+  async author(parent: { author?: unknown; authorId: string }) {
+    return parent.author ?? (await this.userService.findUserById(parent.authorId));
+  }
+
+  async forkCount(id: string, { user }: AppContext) {
+    return await this.boilerplateService.countForks(id, user);
+  }
+
   @Mutation(() => Boilerplate)
   async likeBoilerplate(
     @Args("id") id: string,
@@ -312,6 +447,11 @@ export class BoilerplateResolver {
       );
     }
 
+    const boilerplate = await this.boilerplateService.findBoilerplateAccess(id);
+    if (!boilerplate || !canViewBoilerplate(boilerplate, user)) {
+      throw new CustomError("Boilerplate not found", ErrorCode.NOT_FOUND);
+    }
+
     try {
       return await this.boilerplateService.likeBoilerplate(id, user.sub);
     } catch (error: any) {
@@ -354,7 +494,10 @@ export class BoilerplateResolver {
   }
 
   @Query(() => [String])
-  async likedBy(@Args("boilerplateId") boilerplateId: string) {
+  async likedBy(
+    @Args("boilerplateId") boilerplateId: string,
+    @Context() { user }: AppContext
+  ) {
     logger.info("[Boilerplate Resolver] Fetching likes for boilerplate", {
       boilerplateId,
     });
@@ -362,7 +505,7 @@ export class BoilerplateResolver {
     const boilerplate = await this.boilerplateService.findBoilerplateById(
       boilerplateId
     );
-    if (!boilerplate) {
+    if (!boilerplate || !canViewBoilerplate(boilerplate, user)) {
       logger.warn("[Boilerplate Resolver] Boilerplate not found", {
         boilerplateId,
       });
@@ -436,7 +579,8 @@ export const boilerplateResolvers = {
         after?: string;
         where?: BoilerplateWhereInput;
         orderBy?: BoilerplateOrderByInput;
-      }
+      },
+      context: AppContext
     ) => {
       const {
         first = 10,
@@ -455,11 +599,12 @@ export const boilerplateResolvers = {
         matchMode,
         minRelevanceScore,
         where,
-        orderBy
+        orderBy,
+        context
       );
     },
-    boilerplate: (_: unknown, args: { id: string }) =>
-      BoilerplateResolver.instance.boilerplate(args.id),
+    boilerplate: (_: unknown, args: { id: string }, context: AppContext) =>
+      BoilerplateResolver.instance.viewBoilerplate(args.id, context),
     boilerplates: (
       _: unknown,
       args: {
@@ -467,16 +612,38 @@ export const boilerplateResolvers = {
         after?: string;
         where?: BoilerplateWhereInput;
         orderBy?: BoilerplateOrderByInput;
-      }
+      },
+      context: AppContext
     ) =>
       BoilerplateResolver.instance.boilerplates(
         args.first,
         args.after,
         args.where,
-        args.orderBy
+        args.orderBy,
+        context
+      ),
+    allBoilerplates: (
+      _: unknown,
+      args: {
+        skip?: number;
+        take?: number;
+        where?: BoilerplateWhereInput;
+        orderBy?: BoilerplateOrderByInput;
+      },
+      context: AppContext
+    ) =>
+      BoilerplateResolver.instance.allBoilerplates(
+        args.skip,
+        args.take,
+        args.where,
+        args.orderBy,
+        context
       ),
-    likedBy: (_: unknown, args: { boilerplateId: string }) =>
-      BoilerplateResolver.instance.likedBy(args.boilerplateId),
+    likedBy: (
+      _: unknown,
+      args: { boilerplateId: string },
+      context: AppContext
+    ) => BoilerplateResolver.instance.likedBy(args.boilerplateId, context),
     categories: () => BoilerplateResolver.instance.categories(),
     tags: (_: unknown, args: { name?: string; skip?: number; take?: number }) => 
       BoilerplateResolver.instance.tags(args.name, args.skip, args.take),    
@@ -484,10 +651,14 @@ export const boilerplateResolvers = {
   Mutation: {
     createBoilerplate: async (
       _: unknown,
-      args: { data: BoilerplateInput },
+      args: { data: BoilerplateInput; zipFile?: Promise<FileUpload> },
       context: AppContext
     ) => {
-      return BoilerplateResolver.instance.createBoilerplate(args.data, context);
+      return BoilerplateResolver.instance.createBoilerplate(
+        args.data,
+        context,
+        args.zipFile
+      );
     },
     updateBoilerplate: (
       _: unknown,
@@ -504,6 +675,12 @@ export const boilerplateResolvers = {
       args: { id: string },
       context: AppContext
     ) => BoilerplateResolver.instance.deleteBoilerplate(args.id, context),
+    forkBoilerplate: (
+      _: unknown,
+      args: { id: string; title?: string },
+      context: AppContext
+    ) =>
+      BoilerplateResolver.instance.forkBoilerplate(args.id, args.title, context),
     likeBoilerplate: (_: unknown, args: { id: string }, context: AppContext) =>
       BoilerplateResolver.instance.likeBoilerplate(args.id, context),
     unlikeBoilerplate: (
@@ -515,5 +692,23 @@ export const boilerplateResolvers = {
   Boilerplate: {
     // boilerplates: (parent: BoilerplateResolver) =>
     //   BoilerplateResolver.instance.userBoilerplates(parent.id),
+    forks: (parent: { id: string }, _args: unknown, context: AppContext) =>
+      BoilerplateResolver.instance.forks(parent.id, context),
+    author: (parent: { author?: unknown; authorId: string }) =>
+      BoilerplateResolver.instance.author(parent),
+    forkCount: (parent: { id: string }, _args: unknown, context: AppContext) =>
+      BoilerplateResolver.instance.forkCount(parent.id, context),
+    forkedFrom: (
+      parent: { forkedFromId?: string | null },
+      _args: unknown,
+      context: AppContext
+    ) =>
+      parent.forkedFromId
+        ? BoilerplateResolver.instance.boilerplate(parent.forkedFromId, context)
+        : null,
+  },
+  File: {
+    type: (parent: { contentType?: string | null }) =>
+      parent.contentType || "text/plain",
   },
 };
@@ -0,0 +1,345 @@
+import {
+  Resolver,
+  Query,
+  Mutation,
+  ResolveField,
+  Parent,
+  Args,
+  Context,
+  ID,
+  Int,
+} from "@nestjs/graphql";
+import {
+  Collection,
+  CreateCollectionInput,
+  UpdateCollectionInput,
+} from "../types/collection.type";
+import { CollectionService } from "../services/collection.service";
+import { UserService } from "../services/user.service";
+import logger from "../utils/logger";
+import {
+  AuthenticationError,
+  ErrorCode,
+  handleError,
+} from "../utils/errorHandler";
+import { Context as AppContext } from "../types/context";
+
+const encodeCursor = (id: string): string => {
+  return Buffer.from(id.toString()).toString("base64");
+};
+
+const decodeCursor = (cursor: string): string => {
+  return Buffer.from(cursor, "base64").toString("utf-8");
+};
+
+type CollectionParent = {
+  id: string;
+  userId: string;
+};
+
+@Resolver(() => Collection)
+export class CollectionResolver {
+  private static _instance: CollectionResolver;
+  private collectionService: CollectionService;
+  private userService: UserService;
+
+  private constructor() {
+    this.collectionService = new CollectionService();
+    this.userService = new UserService();
+  }
+
+  public static get instance(): CollectionResolver {
+    if (!CollectionResolver._instance) {
+      CollectionResolver._instance = new CollectionResolver();
+    }
+    return CollectionResolver._instance;
+  }
+
+  @Query(() => [Collection])
+  async myCollections(@Context() { user }: AppContext) {
+    if (!user) {
+      throw new AuthenticationError(
+        "Authentication required to list your collections"
+      );
+    }
+
+    return await this.collectionService.findUserCollections(user.sub, user);
+  }
+
+  @Query(() => Collection, { nullable: true })
+  async collection(
+    @Args("id", { type: () => ID }) id: string,
+    @Context() { user }: AppContext
+  ) {
+    logger.info("[Collection Resolver] Fetching collection", { id });
+
+    try {
+      return await this.collectionService.findCollection(id, user);
+    } catch (error: any) {
+      // Private collections look missing, like private boilerplates
+      if (error.extensions?.code === ErrorCode.NOT_FOUND) return null;
+      throw handleError(error);
+    }
+  }
+
+  @Query(() => [Collection])
+  async userCollections(
+    @Args("userId", { type: () => ID }) userId: string,
+    @Context() { user }: AppContext
+  ) {
+    return await this.collectionService.findUserCollections(userId, user);
+  }
+
+  @Mutation(() => Collection)
+  async createCollection(
+    @Args("input") input: CreateCollectionInput,
+    @Context() { user }: AppContext
+  ) {
+    logger.info("[Collection Resolver] Create collection attempt", {
+      userId: user?.sub,
+      name: input.name,
+    });
+
+    if (!user) {
+      logger.warn("[Collection Resolver] Unauthenticated create attempt");
+      throw new AuthenticationError(
+        "Authentication required to create a collection"
+      );
+    }
+
+    return await this.collectionService.createCollection(user, input);
+  }
+
+  @Mutation(() => Collection)
+  async updateCollection(
+    @Args("id", { type: () => ID }) id: string,
+    @Args("input") input: UpdateCollectionInput,
+    @Context() { user }: AppContext
+  ) {
+    if (!user) {
+      throw new AuthenticationError(
+        "Authentication required to update a collection"
+      );
+    }
+
+    return await this.collectionService.updateCollection(id, input, user);
+  }
+
+  @Mutation(() => Boolean)
+  async deleteCollection(
+    @Args("id", { type: () => ID }) id: string,
+    @Context() { user }: AppContext
+  ) {
+    if (!user) {
+      throw new AuthenticationError(
+        "Authentication required to delete a collection"
+      );
+    }
+
+    return await this.collectionService.deleteCollection(id, user);
+  }
+
+  @Mutation(() => Collection)
+  async addToCollection(
+    @Args("collectionId", { type: () => ID }) collectionId: string,
+    @Args("boilerplateId", { type: () => ID }) boilerplateId: string,
+    @Context() { user }: AppContext
+  ) {
+    logger.info("[Collection Resolver] Add to collection attempt", {
+      userId: user?.sub,
+      collectionId,
+      boilerplateId,
+    });
+
+    if (!user) {
+      throw new AuthenticationError(
+        "Authentication required to change a collection"
+      );
+    }
+
+    return await this.collectionService.addBoilerplate(
+      collectionId,
+      boilerplateId,
+      user
+    );
+  }
+
+  @Mutation(() => Collection)
+  async removeFromCollection(
+    @Args("collectionId", { type: () => ID }) collectionId: string,
+    @Args("boilerplateId", { type: () => ID }) boilerplateId: string,
+    @Context() { user }: AppContext
+  ) {
+    if (!user) {
+      throw new AuthenticationError(
+        "Authentication required to change a collection"
+      );
+    }
+
+    return await this.collectionService.removeBoilerplate(
+      collectionId,
+      boilerplateId,
+      user
+    );
+  }
+
+  @Mutation(() => Collection)
+  async reorderCollection(
+    @Args("collectionId", { type: () => ID }) collectionId: string,
+    @Args({ name: "boilerplateIds", type: () => [ID] }) boilerplateIds: string[],
+    @Context() { user }: AppContext
+  ) {
+    if (!user) {
+      throw new AuthenticationError(
+        "Authentication required to change a collection"
+      );
+    }
+
+    return await this.collectionService.reorderBoilerplates(
+      collectionId,
+      boilerplateIds,
+      user
+    );
+  }
+
+  @ResolveField()
+  async itemCount(
+    @Parent() collection: CollectionParent,
+    @Context() { user }: AppContext
+  ) {
+    return await this.collectionService.countCollectionItems(
+      collection.id,
+      user
+    );
+  }
+
+  @ResolveField()
+  async items(
+    @Parent() collection: CollectionParent,
+    @Args({ name: "first", type: () => Int, defaultValue: 20 }) first: number,
+    @Args("after", { nullable: true }) after: string | undefined,
+    @Context() { user }: AppContext
+  ) {
+    const { items, totalCount } =
+      await this.collectionService.findCollectionItems(
+        collection.id,
+        { first, afterId: after ? decodeCursor(after) : undefined },
+        user
+      );
+
+    const hasNextPage = items.length > first;
+    const nodes = hasNextPage ? items.slice(0, first) : items;
+    const edges = nodes.map((item) => ({
+      node: item.boilerplate,
+      position: item.position,
+      addedAt: item.addedAt,
+      cursor: encodeCursor(item.id),
+    }));
+
+    return {
+      edges,
+      pageInfo: {
+        hasNextPage,
+        endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null,
+      },
+      totalCount,
+    };
+  }
+
+  @ResolveField()
+  async owner(@Parent() collection: CollectionParent) {
+    return await this.userService.findUserById(collection.userId);
+  }
+
+  // Boilerplate.collections
+  async boilerplateCollections(boilerplateId: string) {
+    return await this.collectionService.findPublicCollectionsWith(
+      boilerplateId
+    );
+  }
+}
+
+export const collectionResolvers = {
+  Query: {
+    myCollections: (_: unknown, _args: unknown, context: AppContext) =>
+      CollectionResolver.instance.myCollections(context),
+    collection: (_: unknown, { id }: { id: string }, context: AppContext) =>
+      CollectionResolver.instance.collection(id, context),
+    userCollections: (
+      _: unknown,
+      { userId }: { userId: string },
+      context: AppContext
+    ) => CollectionResolver.instance.userCollections(userId, context),
+  },
+  Mutation: {
+    createCollection: (
+      _: unknown,
+      { input }: { input: CreateCollectionInput },
+      context: AppContext
+    ) => CollectionResolver.instance.createCollection(input, context),
+    updateCollection: (
+      _: unknown,
+      { id, input }: { id: string; input: UpdateCollectionInput },
+      context: AppContext
+    ) => CollectionResolver.instance.updateCollection(id, input, context),
+    deleteCollection: (
+      _: unknown,
+      { id }: { id: string },
+      context: AppContext
+    ) => CollectionResolver.instance.deleteCollection(id, context),
+    addToCollection: (
+      _: unknown,
+      args: { collectionId: string; boilerplateId: string },
+      context: AppContext
+    ) =>
+      CollectionResolver.instance.addToCollection(
+        args.collectionId,
+        args.boilerplateId,
+        context
+      ),
+    removeFromCollection: (
+      _: unknown,
+      args: { collectionId: string; boilerplateId: string },
+      context: AppContext
+    ) =>
+      CollectionResolver.instance.removeFromCollection(
+        args.collectionId,
+        args.boilerplateId,
+        context
+      ),
+    reorderCollection: (
+      _: unknown,
+      args: { collectionId: string; boilerplateIds: string[] },
+      context: AppContext
+    ) =>
+      CollectionResolver.instance.reorderCollection(
+        args.collectionId,
+        args.boilerplateIds,
+        context
+      ),
+  },
+  Collection: {
+    itemCount: (
+      parent: CollectionParent,
+      _args: unknown,
+      context: AppContext
+    ) => CollectionResolver.instance.itemCount(parent, context),
+    items: (
+      parent: CollectionParent,
+      args: { first?: number; after?: string },
+      context: AppContext
+    ) =>
+      CollectionResolver.instance.items(
+        parent,
+        args.first ?? 20,
+        args.after,
+        context
+      ),
+    owner: (parent: CollectionParent) =>
+      CollectionResolver.instance.owner(parent),
+  },
+  Boilerplate: {
+    collections: (parent: { id: string }) =>
+      CollectionResolver.instance.boilerplateCollections(parent.id),
+  },
+};
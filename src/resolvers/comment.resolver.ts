@@ -0,0 +1,211 @@
+import {
+  Resolver,
+  Query,
+  Mutation,
+  ResolveField,
+  Parent,
+  Args,
+  Context,
+  ID,
+  Int,
+} from "@nestjs/graphql";
+import { Comment } from "../types/comment.type";
+import { CommentService } from "../services/comment.service";
+import { UserService } from "../services/user.service";
+import logger from "../utils/logger";
+import { AuthenticationError, handleError } from "../utils/errorHandler";
+import { Context as AppContext } from "../types/context";
+
+const encodeCursor = (id: string): string => {
+  return Buffer.from(id.toString()).toString("base64");
+};
+
+const decodeCursor = (cursor: string): string => {
+  return Buffer.from(cursor, "base64").toString("utf-8");
+};
+
+type CommentParent = {
+  userId: string;
+  content: string;
+  deletedAt?: Date | string | null;
+  user?: unknown;
+  replies?: unknown[];
+  _count?: { replies: number };
+};
+
+@Resolver(() => Comment)
+export class CommentResolver {
+  private static _instance: CommentResolver;
+  private commentService: CommentService;
+  private userService: UserService;
+
+  private constructor() {
+    this.commentService = new CommentService();
+    this.userService = new UserService();
+  }
+
+  public static get instance(): CommentResolver {
+    if (!CommentResolver._instance) {
+      CommentResolver._instance = new CommentResolver();
+    }
+    return CommentResolver._instance;
+  }
+
+  @Query(() => [Comment])
+  async comments(
+    @Args("boilerplateId", { type: () => ID }) boilerplateId: string,
+    @Args({ name: "first", type: () => Int, defaultValue: 20 }) first: number,
+    @Args("after", { nullable: true }) after: string | undefined,
+    @Args({ name: "depth", type: () => Int, nullable: true })
+    depth: number | undefined,
+    @Context() { user }: AppContext
+  ) {
+    logger.info("[Comment Resolver] Fetching comments", {
+      boilerplateId,
+      pagination: { first, after },
+      depth,
+    });
+
+    const { comments, totalCount } = await this.commentService.findComments(
+      boilerplateId,
+      { first, afterId: after ? decodeCursor(after) : undefined, depth },
+      user
+    );
+
+    const hasNextPage = comments.length > first;
+    const nodes = hasNextPage ? comments.slice(0, first) : comments;
+    const edges = nodes.map((node) => ({
+      node,
+      cursor: encodeCursor(node.id),
+    }));
+
+    return {
+      edges,
+      pageInfo: {
+        hasNextPage,
+        endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null,
+      },
+      totalCount,
+    };
+  }
+
+  @Mutation(() => Comment)
+  async addComment(
+    @Args("boilerplateId", { type: () => ID }) boilerplateId: string,
+    @Args("content") content: string,
+    @Args("parentId", { type: () => ID, nullable: true })
+    parentId: string | undefined,
+    @Context() { user }: AppContext
+  ) {
+    logger.info("[Comment Resolver] Add comment attempt", {
+      userId: user?.sub,
+      boilerplateId,
+      parentId,
+    });
+
+    if (!user) {
+      logger.warn("[Comment Resolver] Unauthenticated add attempt");
+      throw new AuthenticationError("Authentication required to comment");
+    }
+
+    try {
+      return await this.commentService.addComment(user, {
+        boilerplateId,
+        content,
+        parentId,
+      });
+    } catch (error: any) {
+      logger.error("[Comment Resolver] Failed to add comment", {
+        userId: user.sub,
+        error: error.message,
+      });
+      throw handleError(error);
+    }
+  }
+
+  @Mutation(() => Comment)
+  async editComment(
+    @Args("id", { type: () => ID }) id: string,
+    @Args("content") content: string,
+    @Context() { user }: AppContext
+  ) {
+    if (!user) {
+      throw new AuthenticationError("Authentication required to edit comment");
+    }
+
+    return await this.commentService.editComment(id, content, user);
+  }
+
+  @Mutation(() => Boolean)
+  async deleteComment(
+    @Args("id", { type: () => ID }) id: string,
+    @Context() { user }: AppContext
+  ) {
+    if (!user) {
+      throw new AuthenticationError(
+        "Authentication required to delete comment"
+      );
+    }
+
+    return await this.commentService.deleteComment(id, user);
+  }
+
+  @ResolveField()
+  async author(@Parent() comment: CommentParent) {
+    if (comment.deletedAt) return null;
+    return comment.user ?? (await this.userService.findUserById(comment.userId));
+  }
+}
+
+export const commentResolvers = {
+  Query: {
+    comments: (
+      _: unknown,
+      args: {
+        boilerplateId: string;
+        first?: number;
+        after?: string;
+        depth?: number;
+      },
+      context: AppContext
+    ) =>
+      CommentResolver.instance.comments(
+        args.boilerplateId,
+        args.first ?? 20,
+        args.after,
+        args.depth,
+        context
+      ),
+  },
+  Mutation: {
+    addComment: (
+      _: unknown,
+      args: { boilerplateId: string; content: string; parentId?: string },
+      context: AppContext
+    ) =>
+      CommentResolver.instance.addComment(
+        args.boilerplateId,
+        args.content,
+        args.parentId,
+        context
+      ),
+    editComment: (
+      _: unknown,
+      { id, content }: { id: string; content: string },
+      context: AppContext
+    ) => CommentResolver.instance.editComment(id, content, context),
+    deleteComment: (
+      _: unknown,
+      { id }: { id: string },
+      context: AppContext
+    ) => CommentResolver.instance.deleteComment(id, context),
+  },
+  Comment: {
+    author: (parent: CommentParent) => CommentResolver.instance.author(parent),
+    content: (parent: CommentParent) =>
+      parent.deletedAt ? null : parent.content,
+    isDeleted: (parent: CommentParent) => !!parent.deletedAt,
+    replies: (parent: CommentParent) => parent.replies ?? [],
+    replyCount: (parent: CommentParent) => parent._count?.replies ?? 0,
+  },
+};
@@ -0,0 +1,127 @@
+import {
+  Resolver,
+  Query,
+  ResolveField,
+  Parent,
+  Args,
+  Context,
+  ID,
+} from "@nestjs/graphql";
+import {
+  AuthorStats,
+  BoilerplateStats,
+  StatsGranularity,
+} from "../types/stats.type";
+import { StatsService, StatsRange } from "../services/stats.service";
+import { BoilerplateService } from "../services/boilerplate.service";
+import { UserService } from "../services/user.service";
+import logger from "../utils/logger";
+import { AuthenticationError } from "../utils/errorHandler";
+import { Context as AppContext } from "../types/context";
+
+type StatsArgs = {
+  from?: string;
+  to?: string;
+  granularity?: StatsGranularity;
+};
+
+@Resolver(() => BoilerplateStats)
+export class StatsResolver {
+  private static _instance: StatsResolver;
+  private statsService: StatsService;
+  private boilerplateService: BoilerplateService;
+  private userService: UserService;
+
+  private constructor() {
+    this.statsService = new StatsService();
+    this.boilerplateService = new BoilerplateService();
+    this.userService = new UserService();
+  }
+
+  public static get instance(): StatsResolver {
+    if (!StatsResolver._instance) {
+      StatsResolver._instance = new StatsResolver();
+    }
+    return StatsResolver._instance;
+  }
+
+  @Query(() => BoilerplateStats)
+  async boilerplateStats(
+    @Args("boilerplateId", { type: () => ID }) boilerplateId: string,
+    @Args() range: StatsRange,
+    @Context() { user }: AppContext
+  ) {
+    logger.info("[Stats Resolver] Fetching boilerplate stats", {
+      boilerplateId,
+      range,
+      userId: user?.sub,
+    });
+
+    if (!user) {
+      throw new AuthenticationError(
+        "Authentication required to view boilerplate stats"
+      );
+    }
+
+    return await this.statsService.getBoilerplateStats(
+      boilerplateId,
+      range,
+      user
+    );
+  }
+
+  @Query(() => AuthorStats)
+  async authorStats(
+    @Args("userId", { type: () => ID, nullable: true }) userId: string | undefined,
+    @Args() range: StatsRange,
+    @Context() { user }: AppContext
+  ) {
+    logger.info("[Stats Resolver] Fetching author stats", {
+      authorId: userId ?? user?.sub,
+      range,
+    });
+
+    if (!user) {
+      throw new AuthenticationError(
+        "Authentication required to view author stats"
+      );
+    }
+
+    return await this.statsService.getAuthorStats(userId, range, user);
+  }
+
+  @ResolveField()
+  async boilerplate(@Parent() stats: { boilerplateId: string }) {
+    return await this.boilerplateService.findBoilerplateById(
+      stats.boilerplateId
+    );
+  }
+
+  @ResolveField()
+  async author(@Parent() stats: { authorId: string }) {
+    return await this.userService.findUserById(stats.authorId);
+  }
+}
+
+export const statsResolvers = {
+  Query: {
+    boilerplateStats: (
+      _: unknown,
+      { boilerplateId, ...range }: StatsArgs & { boilerplateId: string },
+      context: AppContext
+    ) => StatsResolver.instance.boilerplateStats(boilerplateId, range, context),
+    authorStats: (
+      _: unknown,
+      { userId, ...range }: StatsArgs & { userId?: string },
+      context: AppContext
+    ) => StatsResolver.instance.authorStats(userId, range, context),
+  },
+  BoilerplateStats: {
+    boilerplate: (parent: { boilerplateId: string }) =>
+      StatsResolver.instance.boilerplate(parent),
+  },
+  AuthorStats: {
+    author: (parent: { authorId: string }) =>
+      StatsResolver.instance.author(parent),
+  },
+};
@@ -0,0 +1,179 @@
+import { Resolver, Subscription, Args, Context, ID } from "@nestjs/graphql";
+import { withFilter } from "graphql-subscriptions";
+import { Visibility } from "@prisma/client";
+import { Boilerplate } from "../types/boilerplate.type";
+import { BoilerplateVersion } from "../types/version.type";
+import { Comment } from "../types/comment.type";
+import { BoilerplateService } from "../services/boilerplate.service";
+import { pubsub, TOPICS, Topic } from "../config/pubsub";
+import logger from "../utils/logger";
+import { CustomError, ErrorCode } from "../utils/errorHandler";
+import { Context as AppContext, User } from "../types/context";
+import { canViewBoilerplate } from "../policies/visibility.policy";
+
+type EventBoilerplate = {
+  id: string;
+  authorId: string;
+  visibility: Visibility;
+  categoryId?: string | null;
+};
+
+@Resolver()
+export class SubscriptionResolver {
+  private static _instance: SubscriptionResolver;
+  private boilerplateService: BoilerplateService;
+
+  private constructor() {
+    this.boilerplateService = new BoilerplateService();
+  }
+
+  public static get instance(): SubscriptionResolver {
+    if (!SubscriptionResolver._instance) {
+      SubscriptionResolver._instance = new SubscriptionResolver();
+    }
+    return SubscriptionResolver._instance;
+  }
+
+  // Private boilerplates look missing to anyone who may not see them
+  private async assertVisible(boilerplateId: string, user?: User) {
+    const boilerplate = await this.boilerplateService.findBoilerplateAccess(
+      boilerplateId
+    );
+    if (!boilerplate || !canViewBoilerplate(boilerplate, user)) {
+      throw new CustomError("Boilerplate not found", ErrorCode.NOT_FOUND);
+    }
+  }
+
+  /**
+   * Subscribes to a topic, only passing on events about a matching boilerplate
+   * the subscriber can see at the time the event is published
+   * @param topic Event topic
+   * @param getBoilerplate Picks the boilerplate an event is about
+   * @param matches Subscription arguments filter, e.g. same boilerplate ID
+   * @param user Subscriber, if authenticated
+   */
+  private subscribe<T>(
+    topic: Topic,
+    getBoilerplate: (payload: T) => EventBoilerplate,
+    matches: (boilerplate: EventBoilerplate) => boolean,
+    user?: User
+  ) {
+    return withFilter(
+      () => pubsub.asyncIterator<T>(topic),
+      (payload: T) => {
+        const boilerplate = getBoilerplate(payload);
+        return matches(boilerplate) && canViewBoilerplate(boilerplate, user);
+      }
+    )();
+  }
+
+  @Subscription(() => Boilerplate)
+  async boilerplateLiked(
+    @Args("boilerplateId", { type: () => ID }) boilerplateId: string,
+    @Context() { user }: AppContext
+  ) {
+    await this.assertVisible(boilerplateId, user);
+    logger.info("[Subscription Resolver] Subscribed to likes", {
+      boilerplateId,
+      userId: user?.sub,
+    });
+
+    return this.subscribe<{ boilerplateLiked: EventBoilerplate }>(
+      TOPICS.BOILERPLATE_LIKED,
+      ({ boilerplateLiked }) => boilerplateLiked,
+      ({ id }) => id === boilerplateId,
+      user
+    );
+  }
+
+  @Subscription(() => Comment)
+  async commentAdded(
+    @Args("boilerplateId", { type: () => ID }) boilerplateId: string,
+    @Context() { user }: AppContext
+  ) {
+    await this.assertVisible(boilerplateId, user);
+    logger.info("[Subscription Resolver] Subscribed to comments", {
+      boilerplateId,
+      userId: user?.sub,
+    });
+
+    return this.subscribe<{ boilerplate: EventBoilerplate }>(
+      TOPICS.COMMENT_ADDED,
+      ({ boilerplate }) => boilerplate,
+      ({ id }) => id === boilerplateId,
+      user
+    );
+  }
+
+  @Subscription(() => Boilerplate)
+  async boilerplatePublished(
+    @Args("categoryId", { type: () => ID, nullable: true })
+    categoryId: string | undefined,
+    @Context() { user }: AppContext
+  ) {
+    logger.info("[Subscription Resolver] Subscribed to new boilerplates", {
+      categoryId,
+      userId: user?.sub,
+    });
+
+    return this.subscribe<{ boilerplatePublished: EventBoilerplate }>(
+      TOPICS.BOILERPLATE_PUBLISHED,
+      ({ boilerplatePublished }) => boilerplatePublished,
+      (boilerplate) => !categoryId || boilerplate.categoryId === categoryId,
+      user
+    );
+  }
+
+  @Subscription(() => BoilerplateVersion)
+  async versionPublished(
+    @Args("boilerplateId", { type: () => ID }) boilerplateId: string,
+    @Context() { user }: AppContext
+  ) {
+    await this.assertVisible(boilerplateId, user);
+    logger.info("[Subscription Resolver] Subscribed to versions", {
+      boilerplateId,
+      userId: user?.sub,
+    });
+
+    return this.subscribe<{ boilerplate: EventBoilerplate }>(
+      TOPICS.VERSION_PUBLISHED,
+      ({ boilerplate }) => boilerplate,
+      ({ id }) => id === boilerplateId,
+      user
+    );
+  }
+}
+
+export const subscriptionResolvers = {
+  Subscription: {
+    boilerplateLiked: {
+      subscribe: (
+        _: unknown,
+        { boilerplateId }: { boilerplateId: string },
+        context: AppContext
+      ) => SubscriptionResolver.instance.boilerplateLiked(boilerplateId, context),
+    },
+    commentAdded: {
+      subscribe: (
+        _: unknown,
+        { boilerplateId }: { boilerplateId: string },
+        context: AppContext
+      ) => SubscriptionResolver.instance.commentAdded(boilerplateId, context),
+    },
+    boilerplatePublished: {
+      subscribe: (
+        _: unknown,
+        { categoryId }: { categoryId?: string },
+        context: AppContext
+      ) =>
+        SubscriptionResolver.instance.boilerplatePublished(categoryId, context),
+    },
+    versionPublished: {
+      subscribe: (
+        _: unknown,
+        { boilerplateId }: { boilerplateId: string },
+        context: AppContext
+      ) => SubscriptionResolver.instance.versionPublished(boilerplateId, context),
+    },
+  },
+};
@@ -0,0 +1,121 @@
+import { Resolver, Query, Mutation, Args, Context, ID } from "@nestjs/graphql";
+import {
+  CreatedPersonalAccessToken,
+  PersonalAccessToken,
+} from "../types/token.type";
+import { TokenService } from "../services/token.service";
+import logger from "../utils/logger";
+import { AuthenticationError, handleError } from "../utils/errorHandler";
+import { Context as AppContext } from "../types/context";
+import { assertSessionAuth } from "../policies/scope.policy";
+
+@Resolver(() => PersonalAccessToken)
+export class TokenResolver {
+  private static _instance: TokenResolver;
+  private tokenService: TokenService;
+
+  private constructor() {
+    this.tokenService = new TokenService();
+  }
+
+  public static get instance(): TokenResolver {
+    if (!TokenResolver._instance) {
+      TokenResolver._instance = new TokenResolver();
+    }
+    return TokenResolver._instance;
+  }
+
+  @Query(() => [PersonalAccessToken])
+  async personalAccessTokens(@Context() { user }: AppContext) {
+    if (!user) {
+      throw new AuthenticationError(
+        "Authentication required to list access tokens"
+      );
+    }
+    assertSessionAuth(user);
+
+    return await this.tokenService.listPersonalAccessTokens(user.sub);
+  }
+
+  @Mutation(() => CreatedPersonalAccessToken)
+  async createPersonalAccessToken(
+    @Args("name") name: string,
+    @Args({ name: "scopes", type: () => [String] }) scopes: string[],
+    @Args("expiresAt", { nullable: true }) expiresAt: string | undefined,
+    @Context() { user }: AppContext
+  ) {
+    logger.info("[Token Resolver] Create access token attempt", {
+      userId: user?.sub,
+      name,
+      scopes,
+    });
+
+    if (!user) {
+      logger.warn("[Token Resolver] Unauthenticated create attempt");
+      throw new AuthenticationError(
+        "Authentication required to create an access token"
+      );
+    }
+    assertSessionAuth(user);
+
+    try {
+      return await this.tokenService.createPersonalAccessToken(user, {
+        name,
+        scopes,
+        expiresAt,
+      });
+    } catch (error: any) {
+      logger.error("[Token Resolver] Failed to create access token", {
+        userId: user.sub,
+        error: error.message,
+      });
+      throw handleError(error);
+    }
+  }
+
+  @Mutation(() => Object)
+  async revokePersonalAccessToken(
+    @Args("id", { type: () => ID }) id: string,
+    @Context() { user }: AppContext
+  ) {
+    logger.info("[Token Resolver] Revoke access token attempt", {
+      userId: user?.sub,
+      tokenId: id,
+    });
+
+    if (!user) {
+      logger.warn("[Token Resolver] Unauthenticated revoke attempt");
+      throw new AuthenticationError(
+        "Authentication required to revoke an access token"
+      );
+    }
+    assertSessionAuth(user);
+
+    return await this.tokenService.revokePersonalAccessToken(user.sub, id);
+  }
+}
+
+export const tokenResolvers = {
+  Query: {
+    personalAccessTokens: (_: unknown, _args: unknown, context: AppContext) =>
+      TokenResolver.instance.personalAccessTokens(context),
+  },
+  Mutation: {
+    createPersonalAccessToken: (
+      _: unknown,
+      args: { name: string; scopes: string[]; expiresAt?: string },
+      context: AppContext
+    ) =>
+      TokenResolver.instance.createPersonalAccessToken(
+        args.name,
+        args.scopes,
+        args.expiresAt,
+        context
+      ),
+    revokePersonalAccessToken: (
+      _: unknown,
+      { id }: { id: string },
+      context: AppContext
+    ) => TokenResolver.instance.revokePersonalAccessToken(id, context),
+  },
+};
@@ -0,0 +1,64 @@
+import { Resolver, Query, Args, ID, Int } from "@nestjs/graphql";
+import { TrendingBoilerplate, TrendingWindow } from "../types/trending.type";
+import { TrendingService } from "../services/trending.service";
+import logger from "../utils/logger";
+
+@Resolver(() => TrendingBoilerplate)
+export class TrendingResolver {
+  private static _instance: TrendingResolver;
+  private trendingService: TrendingService;
+
+  private constructor() {
+    this.trendingService = new TrendingService();
+  }
+
+  public static get instance(): TrendingResolver {
+    if (!TrendingResolver._instance) {
+      TrendingResolver._instance = new TrendingResolver();
+    }
+    return TrendingResolver._instance;
+  }
+
+  @Query(() => [TrendingBoilerplate])
+  async trendingBoilerplates(
+    @Args({ name: "window", type: () => TrendingWindow, defaultValue: TrendingWindow.WEEK })
+    window: TrendingWindow,
+    @Args("categoryId", { type: () => ID, nullable: true })
+    categoryId: string | undefined,
+    @Args("language", { nullable: true }) language: string | undefined,
+    @Args({ name: "first", type: () => Int, defaultValue: 20 }) first: number
+  ) {
+    logger.info("[Trending Resolver] Fetching trending boilerplates", {
+      window,
+      categoryId,
+      language,
+      first,
+    });
+
+    return await this.trendingService.findTrending(
+      window,
+      { categoryId, language },
+      first
+    );
+  }
+}
+
+export const trendingResolvers = {
+  Query: {
+    trendingBoilerplates: (
+      _: unknown,
+      args: {
+        window?: TrendingWindow;
+        categoryId?: string;
+        language?: string;
+        first?: number;
+      }
+    ) =>
+      TrendingResolver.instance.trendingBoilerplates(
+        args.window ?? TrendingWindow.WEEK,
+        args.categoryId,
+        args.language,
+        args.first ?? 20
+      ),
+  },
+};
@@ -8,17 +8,20 @@ import {
   Field,
   ID,
 } from "@nestjs/graphql";
+import { AuthProvider } from "@prisma/client";
 import { UserService } from "../services/user.service";
 import { AuthService } from "../services/auth.service";
+import { VerificationService } from "../services/verification.service";
+import logger from "../utils/logger";
 import {
   AuthenticationError,
   AuthorizationError,
   CustomError,
   ErrorCode,
 } from "../utils/errorHandler";
-import { Authenticated } from "../decorator/Auth";
 import { User as UserContext } from "../types/context";
 import { Context as AppContext } from "../types/context";
+import { assertSessionAuth } from "../policies/scope.policy";
 
 @ObjectType()
 export class User {
@@ -52,6 +55,7 @@ export class User {
 
 const userService = new UserService();
 const authService = new AuthService();
+const verificationService = new VerificationService();
 
 @Resolver(() => User)
 export class UserResolver {
@@ -72,42 +76,105 @@ export class UserResolver {
   }
 
   @Query(() => [User])
-  @Authenticated()
   async users(
     @Args("first") first: number,
     @Args("after", { nullable: true }) after: string | undefined,
     @Context() context: AppContext
   ) {
-    const { user } = context;
-    if (!user || user.role !== "ADMIN") throw new AuthorizationError();
+    // Restricted to admins by @hasRole in the schema
     return await userService.findUsers({ first, after });
   }
 
-  @Mutation(() => User)
+  @Mutation(() => Object)
   async signup(
-    @Args("input") input: { email: string; password: string; name?: string }
+    @Args("input") input: { email: string; password: string; name?: string },
+    @Context() context: AppContext
   ) {
-    return await userService.signup(input);
+    const { res } = context;
+
+    if (!res)
+      throw new CustomError(
+        "Internal server error",
+        ErrorCode.INTERNAL_SERVER_ERROR
+      );
+
+    const user = await userService.signup(input);
+
+    // The account exists either way, a new link can be requested later
+    try {
+      await verificationService.sendVerificationEmail(user);
+    } catch (error: any) {
+      logger.error("[User Resolver] Failed to send verification email", {
+        userId: user.id,
+        error: error.message,
+      });
+    }
+
+    return await authService.issueSession(user, res);
   }
 
-  // @Mutation(() => Object)
-  // async login(
-  //   @Args("input") input: { email: string; password: string },
-  //   @Context() context: AppContext
-  // ) {
-  //   const { res } = context;
+  @Mutation(() => User)
+  async verifyEmail(@Args("token") token: string) {
+    if (!token)
+      throw new CustomError("token is required", ErrorCode.BAD_USER_INPUT);
+    return await verificationService.verifyEmail(token);
+  }
 
-  //   if (!res)
-  //     throw new CustomError("Internal server error",
-  //       ErrorCode.INTERNAL_SERVER_ERROR);
+  @Mutation(() => Object)
+  async resendVerification(@Context() context: AppContext) {
+    const { user } = context;
+    if (!user) throw new AuthenticationError();
+    return await verificationService.resendVerificationEmail(user.sub);
+  }
 
-  //   const user = await authService.validateUser(input.email, input.password);
-  //   if (!user) throw new AuthorizationError("Invalid email or password");
+  @Mutation(() => Object)
+  async login(
+    @Args("input") input: { email: string; password: string },
+    @Context() context: AppContext
+  ) {
+    const { res } = context;
 
-  //   const result = await authService.login(user, res);
+    if (!res)
+      throw new CustomError(
+        "Internal server error",
+        ErrorCode.INTERNAL_SERVER_ERROR
+      );
+
+    return await authService.login(input.email, input.password, res);
+  }
+
+  @Mutation(() => Object)
+  async requestPasswordReset(@Args("email") email: string) {
+    if (!email)
+      throw new CustomError("email is required", ErrorCode.BAD_USER_INPUT);
+    return await authService.requestPasswordReset(email);
+  }
+
+  @Mutation(() => Object)
+  async resetPassword(
+    @Args("token") token: string,
+    @Args("newPassword") newPassword: string
+  ) {
+    if (!token)
+      throw new CustomError("token is required", ErrorCode.BAD_USER_INPUT);
+    return await authService.resetPassword(token, newPassword);
+  }
+
+  @Mutation(() => Object)
+  async changePassword(
+    @Args("input") input: { currentPassword: string; newPassword: string },
+    @Context() context: AppContext
+  ) {
+    const { user } = context;
+    if (!user) throw new AuthenticationError();
+    assertSessionAuth(user);
 
-  //   return {...result};
-  // }
+    return await authService.changePassword(
+      user.sub,
+      input.currentPassword,
+      input.newPassword
+    );
+  }
 
   @Mutation(() => User)
   async updateProfile(
@@ -116,6 +183,9 @@ export class UserResolver {
   ) {
     const { user } = context;
     if (!user) throw new AuthenticationError();
+    // Changing the email allows a password reset to it, tokens may not
+    assertSessionAuth(user);
+
     return await userService.updateProfile(user.sub, input);
   }
 
@@ -138,29 +208,64 @@ export class UserResolver {
   }
 
   @Mutation(() => Object)
-  async logout(@Context() context: AppContext) {
+  async logout(
+    @Args("currentSessionOnly", { nullable: true })
+    currentSessionOnly: boolean | undefined,
+    @Context() context: AppContext
+  ) {
     const { user, res } = context;
     if (!user || !res) throw new AuthenticationError();
+    assertSessionAuth(user);
 
-    await authService.logout(user.sub, res);
+    await authService.logout(
+      user.sub,
+      res,
+      currentSessionOnly ? user.jti : undefined
+    );
     return {
       success: true,
-      message: "Successfully logged out",
+      message: currentSessionOnly
+        ? "Successfully logged out of this session"
+        : "Successfully logged out",
     };
   }
 
+  @Query(() => [Object])
+  async mySessions(@Context() context: AppContext) {
+    const { user } = context;
+    if (!user) throw new AuthenticationError();
+    return await authService.listSessions(user.sub, user.jti);
+  }
+
+  @Mutation(() => Object)
+  async revokeSession(
+    @Args("tokenId", { type: () => ID }) tokenId: string,
+    @Context() context: AppContext
+  ) {
+    const { user } = context;
+    if (!user) throw new AuthenticationError();
+    assertSessionAuth(user);
+    return await authService.revokeSession(user.sub, tokenId);
+  }
+
   @Query(() => [Object], { name: "userBoilerplates" })
-  async userBoilerplates(@Args("userId", { type: () => ID }) userId: string) {
+  async userBoilerplates(
+    @Args("userId", { type: () => ID }) userId: string,
+    @Context() context: AppContext
+  ) {
     if (!userId)
       throw new CustomError("userId is required", ErrorCode.BAD_USER_INPUT);
-    return await userService.getUserBoilerplates(userId);
+    return await userService.getUserBoilerplates(userId, context.user);
   }
 
   @Query(() => [Object])
-  async likedBoilerplates(@Args("userId", { type: () => ID }) userId: string) {
+  async likedBoilerplates(
+    @Args("userId", { type: () => ID }) userId: string,
+    @Context() context: AppContext
+  ) {
     if (!userId)
       throw new CustomError("userId is required", ErrorCode.BAD_USER_INPUT);
-    return await userService.getLikedBoilerplates(userId);
+    return await userService.getLikedBoilerplates(userId, context.user);
   }
 
   @Mutation(() => Object)
@@ -177,6 +282,53 @@ export class UserResolver {
 
     return await authService.githubAuth(code, res);
   }
+
+  @Mutation(() => Object)
+  async googleAuth(@Args("code") code: string, @Context() context: AppContext) {
+    const { res } = context;
+    if (!res) {
+      throw new CustomError("Internal server error",ErrorCode.INTERNAL_SERVER_ERROR);
+    }
+
+    if (!code || typeof code !== "string") {
+      throw new CustomError("Invalid Google authorization code",ErrorCode.BAD_USER_INPUT);
+    }
+
+    return await authService.googleAuth(code, res);
+  }
+
+  @Mutation(() => User)
+  async linkProvider(
+    @Args("provider") provider: AuthProvider,
+    @Args("code") code: string,
+    @Context() context: AppContext
+  ) {
+    const { user } = context;
+    if (!user) throw new AuthenticationError();
+    assertSessionAuth(user);
+
+    if (!code || typeof code !== "string") {
+      throw new CustomError("Invalid authorization code",ErrorCode.BAD_USER_INPUT);
+    }
+
+    return await authService.linkProvider(user.sub, provider, code);
+  }
+
+  @Mutation(() => User)
+  async unlinkProvider(
+    @Args("provider") provider: AuthProvider,
+    @Context() context: AppContext
+  ) {
+    const { user } = context;
+    if (!user) throw new AuthenticationError();
+    assertSessionAuth(user);
+    return await authService.unlinkProvider(user.sub, provider);
+  }
+
+  async connectedProviders(userId: string) {
+    const user = await userService.findUserById(userId);
+    return user ? authService.getConnectedProviders(user) : [];
+  }
 }
 
 // Update the resolver object structure
@@ -191,21 +343,45 @@ export const userResolvers = {
       args: { first: number; after: string | undefined },
       context: AppContext
     ) => UserResolver.instance.users(args.first, args.after, context),
-    userBoilerplates: (_: unknown, args: { userId: string }) =>
-      UserResolver.instance.userBoilerplates(args.userId),
-    likedBoilerplates: (_: unknown, args: { userId: string }) =>
-      UserResolver.instance.likedBoilerplates(args.userId),
+    userBoilerplates: (
+      _: unknown,
+      args: { userId: string },
+      context: AppContext
+    ) => UserResolver.instance.userBoilerplates(args.userId, context),
+    likedBoilerplates: (
+      _: unknown,
+      args: { userId: string },
+      context: AppContext
+    ) => UserResolver.instance.likedBoilerplates(args.userId, context),
+    mySessions: (_: unknown, _args: unknown, context: AppContext) =>
+      UserResolver.instance.mySessions(context),
   },
   Mutation: {
     signup: (
       _: unknown,
-      args: { input: { email: string; password: string; name?: string } }
-    ) => UserResolver.instance.signup(args.input),
-    // login: (
-    //   _: unknown,
-    //   args: { input: { email: string; password: string } },
-    //   context: AppContext
-    // ) => UserResolver.instance.login(args.input, context),
+      args: { input: { email: string; password: string; name?: string } },
+      context: AppContext
+    ) => UserResolver.instance.signup(args.input, context),
+    login: (
+      _: unknown,
+      args: { input: { email: string; password: string } },
+      context: AppContext
+    ) => UserResolver.instance.login(args.input, context),
+    verifyEmail: (_: unknown, { token }: { token: string }) =>
+      UserResolver.instance.verifyEmail(token),
+    resendVerification: (_: unknown, _args: unknown, context: AppContext) =>
+      UserResolver.instance.resendVerification(context),
+    requestPasswordReset: (_: unknown, { email }: { email: string }) =>
+      UserResolver.instance.requestPasswordReset(email),
+    resetPassword: (
+      _: unknown,
+      { token, newPassword }: { token: string; newPassword: string }
+    ) => UserResolver.instance.resetPassword(token, newPassword),
+    changePassword: (
+      _: unknown,
+      args: { input: { currentPassword: string; newPassword: string } },
+      context: AppContext
+    ) => UserResolver.instance.changePassword(args.input, context),
     updateProfile: (
       _: unknown,
       args: { input: { name?: string; email?: string } },
@@ -213,18 +389,42 @@ export const userResolvers = {
     ) => UserResolver.instance.updateProfile(args.input, context),
     refreshToken: (_: unknown, _args: unknown, context: AppContext) =>
       UserResolver.instance.refreshToken(context),
-    logout: (_: unknown, _args: unknown, context: AppContext) =>
-      UserResolver.instance.logout(context),
+    logout: (
+      _: unknown,
+      args: { currentSessionOnly?: boolean },
+      context: AppContext
+    ) => UserResolver.instance.logout(args.currentSessionOnly, context),
+    revokeSession: (
+      _: unknown,
+      { tokenId }: { tokenId: string },
+      context: AppContext
+    ) => UserResolver.instance.revokeSession(tokenId, context),
     githubAuth: (_: unknown, { code }: { code: string }, context: AppContext) =>
       UserResolver.instance.githubAuth(code, context),
+    googleAuth: (_: unknown, { code }: { code: string }, context: AppContext) =>
+      UserResolver.instance.googleAuth(code, context),
+    linkProvider: (
+      _: unknown,
+      { provider, code }: { provider: AuthProvider; code: string },
+      context: AppContext
+    ) => UserResolver.instance.linkProvider(provider, code, context),
+    unlinkProvider: (
+      _: unknown,
+      { provider }: { provider: AuthProvider },
+      context: AppContext
+    ) => UserResolver.instance.unlinkProvider(provider, context),
   },
   User: {
     // Add this field resolver
-    boilerplates: (parent: User) =>
-      UserResolver.instance.userBoilerplates(parent.id),
+    boilerplates: (parent: User, _args: unknown, context: AppContext) =>
+      UserResolver.instance.userBoilerplates(parent.id, context),
 
     // You should also add likedBoilerplates since it's defined in your schema
-    likedBoilerplates: (parent: User) =>
-      UserResolver.instance.likedBoilerplates(parent.id),
+    likedBoilerplates: (parent: User, _args: unknown, context: AppContext) =>
+      UserResolver.instance.likedBoilerplates(parent.id, context),
+
+    // Looked up again since session payloads carry no password hash
+    connectedProviders: (parent: User) =>
+      UserResolver.instance.connectedProviders(parent.id),
   },
 };
@@ -0,0 +1,281 @@
+import { Resolver, Query, Mutation, Args, Context } from "@nestjs/graphql";
+import { FileUpload } from "graphql-upload-minimal";
+import {
+  BoilerplateVersion,
+  PublishVersionInput,
+  VersionComparison,
+} from "../types/version.type";
+import { Boilerplate } from "../types/boilerplate.type";
+import { VersionService } from "../services/version.service";
+import { BoilerplateService } from "../services/boilerplate.service";
+import { VerificationService } from "../services/verification.service";
+import logger from "../utils/logger";
+import {
+  AuthenticationError,
+  CustomError,
+  ErrorCode,
+  handleError,
+} from "../utils/errorHandler";
+import { Context as AppContext, User } from "../types/context";
+import { canViewBoilerplate } from "../policies/visibility.policy";
+
+@Resolver(() => BoilerplateVersion)
+export class VersionResolver {
+  private static _instance: VersionResolver;
+  private versionService: VersionService;
+  private boilerplateService: BoilerplateService;
+  private verificationService: VerificationService;
+
+  private constructor() {
+    this.versionService = new VersionService();
+    this.boilerplateService = new BoilerplateService();
+    this.verificationService = new VerificationService();
+  }
+
+  public static get instance(): VersionResolver {
+    if (!VersionResolver._instance) {
+      VersionResolver._instance = new VersionResolver();
+    }
+    return VersionResolver._instance;
+  }
+
+  // Private boilerplates look missing to anyone who may not see them
+  private async isVisible(boilerplateId: string, user?: User) {
+    const boilerplate = await this.boilerplateService.findBoilerplateAccess(
+      boilerplateId
+    );
+    return !!boilerplate && canViewBoilerplate(boilerplate, user);
+  }
+
+  @Query(() => [BoilerplateVersion])
+  async versions(
+    @Args("boilerplateId") boilerplateId: string,
+    @Context() { user }: AppContext
+  ) {
+    logger.info("[Version Resolver] Fetching versions", { boilerplateId });
+
+    if (!(await this.isVisible(boilerplateId, user))) {
+      throw new CustomError("Boilerplate not found", ErrorCode.NOT_FOUND);
+    }
+    return await this.versionService.listVersions(boilerplateId);
+  }
+
+  @Query(() => BoilerplateVersion, { nullable: true })
+  async version(
+    @Args("boilerplateId") boilerplateId: string,
+    @Args("versionNumber") versionNumber: string,
+    @Context() { user }: AppContext
+  ) {
+    logger.info("[Version Resolver] Fetching version", {
+      boilerplateId,
+      versionNumber,
+    });
+
+    if (!(await this.isVisible(boilerplateId, user))) return null;
+    return await this.versionService.findVersion(boilerplateId, versionNumber);
+  }
+
+  @Query(() => VersionComparison)
+  async compareVersions(
+    @Args("boilerplateId") boilerplateId: string,
+    @Args("from") from: string,
+    @Args("to") to: string,
+    @Args("summaryOnly", { nullable: true }) summaryOnly: boolean | undefined,
+    @Context() { user }: AppContext
+  ) {
+    logger.info("[Version Resolver] Comparing versions", {
+      boilerplateId,
+      from,
+      to,
+      summaryOnly,
+    });
+
+    if (!(await this.isVisible(boilerplateId, user))) {
+      throw new CustomError("Boilerplate not found", ErrorCode.NOT_FOUND);
+    }
+
+    try {
+      return await this.versionService.compareVersions(
+        boilerplateId,
+        from,
+        to,
+        summaryOnly
+      );
+    } catch (error: any) {
+      logger.error("[Version Resolver] Failed to compare versions", {
+        boilerplateId,
+        from,
+        to,
+        error: error.message,
+      });
+      throw handleError(error);
+    }
+  }
+
+  @Mutation(() => BoilerplateVersion)
+  async publishVersion(
+    @Args("boilerplateId") boilerplateId: string,
+    @Args("input") input: PublishVersionInput,
+    @Context() { user }: AppContext,
+    zipFile?: Promise<FileUpload>
+  ) {
+    logger.info("[Version Resolver] Publish version attempt", {
+      userId: user?.sub,
+      boilerplateId,
+      versionNumber: input.versionNumber,
+      hasZipFile: !!(zipFile || input.zipFile),
+    });
+
+    if (!user) {
+      logger.warn("[Version Resolver] Unauthenticated publish attempt");
+      throw new AuthenticationError(
+        "Authentication required to publish a version"
+      );
+    }
+
+    await this.verificationService.assertCanPublish(user.sub);
+
+    try {
+      return await this.versionService.publishVersion(boilerplateId, user, {
+        ...input,
+        zipFile: zipFile || input.zipFile,
+      });
+    } catch (error: any) {
+      logger.error("[Version Resolver] Failed to publish version", {
+        userId: user.sub,
+        boilerplateId,
+        error: error.message,
+      });
+      throw handleError(error);
+    }
+  }
+
+  @Mutation(() => Boilerplate)
+  async setCurrentVersion(
+    @Args("boilerplateId") boilerplateId: string,
+    @Args("versionNumber") versionNumber: string,
+    @Context() { user }: AppContext
+  ) {
+    logger.info("[Version Resolver] Set current version attempt", {
+      userId: user?.sub,
+      boilerplateId,
+      versionNumber,
+    });
+
+    if (!user) {
+      logger.warn("[Version Resolver] Unauthenticated set current attempt");
+      throw new AuthenticationError(
+        "Authentication required to change the current version"
+      );
+    }
+
+    try {
+      return await this.versionService.setCurrentVersion(
+        boilerplateId,
+        user,
+        versionNumber
+      );
+    } catch (error: any) {
+      logger.error("[Version Resolver] Failed to set current version", {
+        userId: user.sub,
+        boilerplateId,
+        error: error.message,
+      });
+      throw handleError(error);
+    }
+  }
+
+  async versionFiles(boilerplateId: string, versionNumber: string) {
+    return await this.versionService.findVersionFiles(
+      boilerplateId,
+      versionNumber
+    );
+  }
+
+  // Field resolver: the parent boilerplate has already passed visibility
+  async boilerplateVersions(boilerplateId: string) {
+    return await this.versionService.listVersions(boilerplateId);
+  }
+}
+
+export const versionResolvers = {
+  Query: {
+    versions: (
+      _: unknown,
+      args: { boilerplateId: string },
+      context: AppContext
+    ) => VersionResolver.instance.versions(args.boilerplateId, context),
+    version: (
+      _: unknown,
+      args: { boilerplateId: string; versionNumber: string },
+      context: AppContext
+    ) =>
+      VersionResolver.instance.version(
+        args.boilerplateId,
+        args.versionNumber,
+        context
+      ),
+    compareVersions: (
+      _: unknown,
+      args: {
+        boilerplateId: string;
+        from: string;
+        to: string;
+        summaryOnly?: boolean;
+      },
+      context: AppContext
+    ) =>
+      VersionResolver.instance.compareVersions(
+        args.boilerplateId,
+        args.from,
+        args.to,
+        args.summaryOnly,
+        context
+      ),
+  },
+  Mutation: {
+    publishVersion: (
+      _: unknown,
+      args: {
+        boilerplateId: string;
+        input: PublishVersionInput;
+        zipFile?: Promise<FileUpload>;
+      },
+      context: AppContext
+    ) =>
+      VersionResolver.instance.publishVersion(
+        args.boilerplateId,
+        args.input,
+        context,
+        args.zipFile
+      ),
+    setCurrentVersion: (
+      _: unknown,
+      args: { boilerplateId: string; versionNumber: string },
+      context: AppContext
+    ) =>
+      VersionResolver.instance.setCurrentVersion(
+        args.boilerplateId,
+        args.versionNumber,
+        context
+      ),
+  },
+  BoilerplateVersion: {
+    files: (parent: { boilerplateId: string; versionNumber: string }) =>
+      VersionResolver.instance.versionFiles(
+        parent.boilerplateId,
+        parent.versionNumber
+      ),
+    isCurrent: (parent: {
+      versionNumber: string;
+      boilerplate: { currentVersion: string };
+    }) => parent.boilerplate.currentVersion === parent.versionNumber,
+  },
+  Boilerplate: {
+    // Files of the version currently served, not every stored snapshot
+    files: (parent: { id: string; currentVersion: string }) =>
+      VersionResolver.instance.versionFiles(parent.id, parent.currentVersion),
+    versions: (parent: { id: string }) =>
+      VersionResolver.instance.boilerplateVersions(parent.id),
+  },
+};
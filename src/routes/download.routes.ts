@@ -0,0 +1,114 @@
+import { Router, Request, Response } from "express";
+import { DownloadService } from "../services/download.service";
+import { authenticate } from "../middleware/auth.middleware";
+import { createTarGzStream, createZipArchive } from "../utils/archive";
+import {
+  CustomError,
+  ErrorCode,
+  STATUS_CODES,
+  handleError,
+} from "../utils/errorHandler";
+import logger from "../utils/logger";
+import { assertScope } from "../policies/scope.policy";
+
+type ArchiveFormat = "zip" | "tar.gz";
+
+const ARCHIVE_FORMATS: ArchiveFormat[] = ["zip", "tar.gz"];
+
+const downloadService = new DownloadService();
+
+const toArchiveName = (title: string, versionNumber: string) =>
+  `${title.toLowerCase().replace(/[^a-z0-9-_]+/g, "-")}-${versionNumber}`;
+
+/**
+ * Streams a boilerplate (or one of its versions) as an archive.
+ * GET /download/:boilerplateId[/:versionNumber]?format=zip|tar.gz
+ */
+const downloadBoilerplate = async (req: Request, res: Response) => {
+  const { boilerplateId, versionNumber } = req.params;
+  const format = (req.query.format || "zip") as ArchiveFormat;
+
+  logger.info("[Download Route] Download requested", {
+    boilerplateId,
+    versionNumber,
+    format,
+    userId: req.user?.sub,
+  });
+
+  try {
+    assertScope(req.user, "boilerplate:read");
+
+    if (!ARCHIVE_FORMATS.includes(format)) {
+      throw new CustomError(
+        `Unsupported archive format: ${format}`,
+        ErrorCode.BAD_REQUEST
+      );
+    }
+
+    const download = await downloadService.prepareDownload(
+      boilerplateId,
+      versionNumber,
+      req.user
+    );
+    const archiveName = toArchiveName(
+      download.boilerplate.title,
+      download.versionNumber
+    );
+
+    if (format === "zip") {
+      const archive = createZipArchive(download.files, archiveName);
+
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${archiveName}.zip"`
+      );
+      res.setHeader("Content-Length", archive.length);
+      res.end(archive);
+    } else {
+      res.setHeader("Content-Type", "application/gzip");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${archiveName}.tar.gz"`
+      );
+      createTarGzStream(download.files, archiveName)
+        .on("error", (error) => {
+          logger.error("[Download Route] Archive stream failed", {
+            boilerplateId,
+            error: error.message,
+          });
+          res.destroy(error);
+        })
+        .pipe(res);
+    }
+
+    await downloadService.recordDownload(boilerplateId, {
+      userId: req.user?.sub,
+      ip: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+  } catch (error: any) {
+    const handled = handleError(error);
+    logger.error("[Download Route] Download failed", {
+      boilerplateId,
+      versionNumber,
+      error: handled.message,
+    });
+
+    if (res.headersSent) return;
+    res
+      .status(
+        (handled.extensions.status as number) ||
+          STATUS_CODES.SERVER_ERROR.INTERNAL_SERVER_ERROR
+      )
+      .json({ message: handled.message, code: handled.extensions.code });
+  }
+};
+
+export const downloadRouter = Router();
+
+downloadRouter.get(
+  "/:boilerplateId/:versionNumber?",
+  authenticate,
+  downloadBoilerplate
+);
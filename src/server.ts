@@ -8,13 +8,13 @@ import { useServer } from "graphql-ws/lib/use/ws";
 import { makeExecutableSchema } from "@graphql-tools/schema";
 import { loadSchemaSync } from "@graphql-tools/load";
 import { GraphQLFileLoader } from "@graphql-tools/graphql-file-loader";
-import { PubSub } from "graphql-subscriptions";
 import Redis from "ioredis";
 import cors from "cors";
 import { json } from "body-parser";
 import { PrismaClient } from "@prisma/client";
 import path from "path";
 import logger from "./utils/logger";
+import { pubsub } from "./config/pubsub";
 import cookieParser from "cookie-parser";
 import { authenticate } from "./middleware/auth.middleware";
 import { GraphQLScalarType, validateSchema } from "graphql";
@@ -25,6 +25,22 @@ import { GraphQLUpload, graphqlUploadExpress } from "graphql-upload-minimal";
 import { boilerplateResolvers } from "./resolvers/boilerplate.resolver";
 import { userResolvers } from "./resolvers/user.resolver";
 import { bloggerResolvers } from "./resolvers/blogs.resolver";
+import { versionResolvers } from "./resolvers/version.resolver";
+import { tokenResolvers } from "./resolvers/token.resolver";
+import { commentResolvers } from "./resolvers/comment.resolver";
+import { collectionResolvers } from "./resolvers/collection.resolver";
+import { statsResolvers } from "./resolvers/stats.resolver";
+import { trendingResolvers } from "./resolvers/trending.resolver";
+import { subscriptionResolvers } from "./resolvers/subscription.resolver";
+import { downloadRouter } from "./routes/download.routes";
+import { authDirectiveTransformer } from "./directives/auth.directive";
+import { startAnalyticsFlush } from "./services/analytics.service";
+import { startTrendingRefresh } from "./services/trending.service";
+import {
+  ConnectionParams,
+  SubscriptionExtra,
+  subscriptionAuth,
+} from "./middleware/ws-auth.middleware";
 import {
   errorStatusMap,
   isErrorCode,
@@ -36,15 +52,36 @@ const resolvers = {
   Query: {
     ...(userResolvers.Query || {}),
     ...(boilerplateResolvers.Query || {}),
-    ...(bloggerResolvers.Query || {})
+    ...(bloggerResolvers.Query || {}),
+    ...(versionResolvers.Query || {}),
+    ...(tokenResolvers.Query || {}),
+    ...(commentResolvers.Query || {}),
+    ...(collectionResolvers.Query || {}),
+    ...(statsResolvers.Query || {}),
+    ...(trendingResolvers.Query || {}),
   },
   Mutation: {
     ...(userResolvers.Mutation || {}),
     ...(boilerplateResolvers.Mutation || {}),
+    ...(versionResolvers.Mutation || {}),
+    ...(tokenResolvers.Mutation || {}),
+    ...(commentResolvers.Mutation || {}),
+    ...(collectionResolvers.Mutation || {}),
   },
+  Subscription: subscriptionResolvers.Subscription,
   User: userResolvers.User,
-  Boilerplate: boilerplateResolvers.Boilerplate,
-  // Upload: GraphQLUpload,
+  Boilerplate: {
+    ...boilerplateResolvers.Boilerplate,
+    ...versionResolvers.Boilerplate,
+    ...collectionResolvers.Boilerplate,
+  },
+  BoilerplateVersion: versionResolvers.BoilerplateVersion,
+  Comment: commentResolvers.Comment,
+  Collection: collectionResolvers.Collection,
+  BoilerplateStats: statsResolvers.BoilerplateStats,
+  AuthorStats: statsResolvers.AuthorStats,
+  File: boilerplateResolvers.File,
+  Upload: GraphQLUpload,
 };
 
 function logResolverKeys(resolvers: Record<string, any>) {
@@ -59,7 +96,6 @@ function logResolverKeys(resolvers: Record<string, any>) {
 async function startServer() {
   const redis = new Redis(process.env.REDIS_URL || "redis://localhost:6379");
   const prisma = new PrismaClient();
-  const pubsub = new PubSub();
   const app = express();
   const httpServer = createServer(app);
 
@@ -86,7 +122,9 @@ async function startServer() {
     { loaders: [new GraphQLFileLoader()] }
   );
 
-  const schema = makeExecutableSchema({ typeDefs, resolvers });
+  const schema = authDirectiveTransformer(
+    makeExecutableSchema({ typeDefs, resolvers })
+  );
 
   const validationErrors = validateSchema(schema);
   if (validationErrors.length > 0) {
@@ -98,14 +136,29 @@ async function startServer() {
     server: httpServer,
     path: "/graphql",
   });
-  const serverCleanup = useServer(
+  const serverCleanup = useServer<ConnectionParams, SubscriptionExtra>(
     {
       schema,
-      context: async (ctx) => ({ prisma, redis, pubsub }),
+      ...subscriptionAuth,
+      // Same shape as the HTTP context, the user was set in onConnect
+      context: async (ctx) => ({
+        prisma,
+        redis,
+        pubsub,
+        user: ctx.extra.user,
+        token: ctx.connectionParams?.authorization,
+        req: ctx.extra.request,
+        res: undefined,
+      }),
     },
     wsServer
   );
 
+  // Writes buffered views and downloads to Postgres
+  const analyticsFlush = startAnalyticsFlush();
+  // Keeps the cached trending rankings fresh
+  const trendingRefresh = startTrendingRefresh();
+
   const getCleanStackTrace = () => {
     return new Error().stack
       ?.split("\n")
@@ -148,6 +201,9 @@ async function startServer() {
           return {
             async drainServer() {
               await serverCleanup.dispose();
+              clearInterval(analyticsFlush);
+              clearInterval(trendingRefresh);
+              await pubsub.close();
             },
           };
         },
@@ -203,6 +259,9 @@ async function startServer() {
   // ADD THIS LINE - Add the upload middleware before the GraphQL endpoint
   app.use(graphqlUploadExpress({ maxFileSize: 10000000, maxFiles: 10 }));
 
+  // Archive downloads (zip / tar.gz) for boilerplates and their versions
+  app.use("/download", downloadRouter);
+
   // Explicit OPTIONS handler for CORS preflight
   app.options("/graphql", cors(corsOptions));
 
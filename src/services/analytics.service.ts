@@ -0,0 +1,234 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { createHash, randomUUID } from "crypto";
+import { redis } from "../config/redis";
+import logger from "../utils/logger";
+import { acquireLock, releaseLock } from "../utils/redisLock";
+
+const prisma = new PrismaClient();
+
+// How often buffered counters are written to Postgres
+const ANALYTICS_FLUSH_INTERVAL = parseInt(
+  process.env.ANALYTICS_FLUSH_INTERVAL || "60"
+);
+// Longer than the slowest flush, so flushes never overlap
+const ANALYTICS_FLUSH_LOCK_TTL = parseInt(
+  process.env.ANALYTICS_FLUSH_LOCK_TTL || "600"
+);
+// Unique visitor sets must outlive the last flush of their day
+const ANALYTICS_VISITOR_TTL = parseInt(
+  process.env.ANALYTICS_VISITOR_TTL || "172800"
+);
+
+const PENDING_DATES_KEY = "analytics:pending_dates";
+const FLUSH_LOCK_KEY = "analytics:flush_lock";
+// Applied batch ids are kept long past any batch left over in Redis
+const APPLIED_BATCH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Counters per day, fields are `{boilerplateId}:views|downloads`
+const countersKey = (date: string) => `analytics:counters:${date}`;
+// HyperLogLog of visitor ids per boilerplate per day
+const visitorsKey = (boilerplateId: string, date: string) =>
+  `analytics:visitors:${boilerplateId}:${date}`;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+type Metric = "views" | "downloads";
+
+export interface Visitor {
+  userId?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * Stable, anonymous id for unique visitor counting. Signed-in users count
+ * once across devices; anonymous visitors are a hash of IP and user agent so
+ * neither is stored.
+ */
+export const getVisitorId = ({ userId, ip, userAgent }: Visitor) =>
+  userId
+    ? `user:${userId}`
+    : `anon:${createHash("sha256")
+        .update(`${ip || ""}|${userAgent || ""}`)
+        .digest("hex")}`;
+
+export class AnalyticsService {
+  /**
+   * Buffers a view in Redis, written to Postgres by the next flush
+   * @param boilerplateId Viewed boilerplate
+   * @param visitor Who viewed it
+   */
+  async recordView(boilerplateId: string, visitor: Visitor) {
+    await this.record(boilerplateId, "views", visitor);
+  }
+
+  /**
+   * Buffers a download in Redis, written to Postgres by the next flush
+   * @param boilerplateId Downloaded boilerplate
+   * @param visitor Who downloaded it
+   */
+  async recordDownload(boilerplateId: string, visitor: Visitor) {
+    await this.record(boilerplateId, "downloads", visitor);
+  }
+
+  private async record(boilerplateId: string, metric: Metric, visitor: Visitor) {
+    const date = today();
+    const visitors = visitorsKey(boilerplateId, date);
+
+    try {
+      await redis
+        .multi()
+        .hincrby(countersKey(date), `${boilerplateId}:${metric}`, 1)
+        .pfadd(visitors, getVisitorId(visitor))
+        .expire(visitors, ANALYTICS_VISITOR_TTL)
+        .sadd(PENDING_DATES_KEY, date)
+        .exec();
+    } catch (error: any) {
+      // Analytics must never break the request being counted
+      logger.error("[AnalyticsService] Failed to record event", {
+        error: error.message,
+        boilerplateId,
+        metric,
+      });
+    }
+  }
+
+  /**
+   * Writes buffered counters to `BoilerplateAnalytics` and the boilerplate
+   * totals. Only one instance flushes at a time; counters of a failed flush
+   * are kept and retried by the next one, without applying them twice.
+   */
+  async flush() {
+    let token: string | null = null;
+
+    try {
+      token = await acquireLock(FLUSH_LOCK_KEY, ANALYTICS_FLUSH_LOCK_TTL);
+      if (!token) return;
+
+      const dates = await redis.smembers(PENDING_DATES_KEY);
+      for (const date of dates.sort()) {
+        await this.flushDate(date);
+      }
+
+      await prisma.analyticsFlush.deleteMany({
+        where: {
+          createdAt: { lt: new Date(Date.now() - APPLIED_BATCH_RETENTION_MS) },
+        },
+      });
+    } catch (error: any) {
+      logger.error("[AnalyticsService] Flush failed", { error: error.message });
+    } finally {
+      if (token) await releaseLock(FLUSH_LOCK_KEY, token);
+    }
+  }
+
+  private async flushDate(date: string) {
+    const key = countersKey(date);
+    const flushing = `${key}:flushing`;
+    const batchKey = `${flushing}:batch`;
+
+    // Counters left over from a failed flush go first, new events keep
+    // accumulating under the live key meanwhile
+    if (!(await redis.exists(flushing))) {
+      if (!(await redis.exists(key))) {
+        if (date !== today()) await redis.srem(PENDING_DATES_KEY, date);
+        return;
+      }
+      await redis
+        .multi()
+        .rename(key, flushing)
+        .set(batchKey, randomUUID())
+        .exec();
+    }
+
+    // Recorded with the counts, a batch is applied at most once
+    let batchId = await redis.get(batchKey);
+    if (!batchId) {
+      batchId = randomUUID();
+      await redis.set(batchKey, batchId);
+    }
+    if (await prisma.analyticsFlush.findUnique({ where: { id: batchId } })) {
+      await redis.del(flushing, batchKey);
+      return;
+    }
+
+    const counters = await redis.hgetall(flushing);
+    const totals = new Map<string, Record<Metric, number>>();
+    for (const [field, value] of Object.entries(counters)) {
+      const separator = field.lastIndexOf(":");
+      const boilerplateId = field.slice(0, separator);
+      const metric = field.slice(separator + 1) as Metric;
+      const total = totals.get(boilerplateId) || { views: 0, downloads: 0 };
+      total[metric] += parseInt(value);
+      totals.set(boilerplateId, total);
+    }
+
+    // Boilerplates deleted since would fail the whole transaction
+    const existing = await prisma.boilerplate.findMany({
+      where: { id: { in: Array.from(totals.keys()) } },
+      select: { id: true },
+    });
+
+    const day = new Date(date);
+    const operations = [];
+    for (const { id } of existing) {
+      const { views, downloads } = totals.get(id)!;
+      const uniqueVisitors = await redis.pfcount(visitorsKey(id, date));
+
+      operations.push(
+        prisma.boilerplateAnalytics.upsert({
+          where: { boilerplateId_date: { boilerplateId: id, date: day } },
+          create: { boilerplateId: id, date: day, views, downloads, uniqueVisitors },
+          update: {
+            views: { increment: views },
+            downloads: { increment: downloads },
+            uniqueVisitors,
+          },
+        }),
+        prisma.boilerplate.update({
+          where: { id },
+          data: {
+            views: { increment: views },
+            downloads: { increment: downloads },
+          },
+        })
+      );
+    }
+
+    try {
+      await prisma.$transaction([
+        prisma.analyticsFlush.create({ data: { id: batchId } }),
+        ...operations,
+      ]);
+    } catch (error) {
+      // Applied meanwhile by a flush whose lock had expired
+      if (
+        !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+        error.code !== "P2002"
+      ) {
+        throw error;
+      }
+    }
+    await redis.del(flushing, batchKey);
+
+    logger.info("[AnalyticsService] Analytics flushed", {
+      date,
+      boilerplates: existing.length,
+    });
+  }
+}
+
+/**
+ * Flushes buffered analytics on an interval
+ * @returns Timer to clear on shutdown
+ */
+export const startAnalyticsFlush = (
+  analyticsService: AnalyticsService = new AnalyticsService()
+) =>
+  setInterval(() => {
+    analyticsService.flush().catch((error) => {
+      logger.error("[AnalyticsService] Scheduled flush failed", {
+        error: error.message,
+      });
+    });
+  }, ANALYTICS_FLUSH_INTERVAL * 1000);
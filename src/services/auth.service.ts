@@ -1,23 +1,81 @@
-import { PrismaClient, Prisma, User } from "@prisma/client";
-import bcrypt from "bcryptjs";
+import { AuthProvider, PrismaClient, Prisma, User } from "@prisma/client";
 import { GraphQLError } from "graphql";
 import * as jwt from "jsonwebtoken";
 import { redis } from "../config/redis";
 import { Response } from "express";
 import logger from "../utils/logger";
 import axios from "axios";
+import { createHash, randomBytes } from "crypto";
+import {
+  AuthenticationError,
+  CustomError,
+  ErrorCode,
+  ValidationError,
+} from "../utils/errorHandler";
+import { verifyJwtWithJwks } from "../utils/jwks";
+import {
+  assertPasswordPolicy,
+  hashPassword,
+  verifyPassword,
+} from "../utils/password";
+import { MailService } from "./mail.service";
 
 const prisma = new PrismaClient();
+const mailService = new MailService();
 const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
 const REFRESH_SECRET = process.env.REFRESH_SECRET || "your-refresh-secret";
 
 // Token expiration times in seconds
-const ACCESS_TOKEN_EXPIRY = "24h"; // #TODO: Update this time for productions
+const ACCESS_TOKEN_EXPIRY = 24 * 60 * 60; // #TODO: Update this time for productions
 const REFRESH_TOKEN_EXPIRY = 7 * 24 * 60 * 60; // 7 days
+// Sessions end this long after sign-in however often they are refreshed
+const SESSION_MAX_LIFETIME = parseInt(
+  process.env.SESSION_MAX_LIFETIME || String(30 * 24 * 60 * 60)
+); // 30 days
+// Minimum delay between two `lastUsedAt` writes for the same session
+const SESSION_TOUCH_INTERVAL = parseInt(
+  process.env.SESSION_TOUCH_INTERVAL || "60"
+);
+const PASSWORD_RESET_TOKEN_EXPIRY = parseInt(
+  process.env.PASSWORD_RESET_TOKEN_EXPIRY || "900"
+); // 15 minutes
+const PASSWORD_RESET_COOLDOWN = parseInt(
+  process.env.PASSWORD_RESET_COOLDOWN || "60"
+);
+const PASSWORD_RESET_URL =
+  process.env.PASSWORD_RESET_URL || "http://localhost:8080/reset-password";
 
 // Type for user without password
 type SafeUser = Omit<User, "password">;
 
+const toSafeUser = ({ password: _password, ...safeUser }: User): SafeUser =>
+  safeUser;
+
+// Stored with every refresh token, keyed by `refresh_token:{userId}:{tokenId}`.
+// A session is a refresh token family: each rotation bumps `generation` and
+// retires the refresh token of the previous one.
+interface SessionData {
+  userId: string;
+  tokenId: string;
+  generation?: number;
+  createdAt: string;
+  lastUsedAt: string;
+  userAgent?: string;
+  ip?: string;
+}
+
+// Token ids of a user's sessions, so they are found without scanning keys
+const sessionIndexKey = (userId: string) => `user_sessions:${userId}`;
+
+export interface SessionInfo {
+  tokenId: string;
+  userAgent?: string;
+  ip?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
 // Auth response type
 interface AuthResponse {
   token: string;
@@ -29,21 +87,71 @@ interface AuthResponse {
 const GITHUB_CLIENT_ID = process.env.GITHUB_CLIENT_ID;
 const GITHUB_CLIENT_SECRET = process.env.GITHUB_CLIENT_SECRET;
 const GITHUB_CALLBACK_URL = process.env.GITHUB_CALLBACK_URL;
+const GITHUB_TOKEN_URL =
+  process.env.GITHUB_TOKEN_URL || "https://github.com/login/oauth/access_token";
+const GITHUB_API_URL = process.env.GITHUB_API_URL || "https://api.github.com";
+
+const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
+const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET;
+const GOOGLE_CALLBACK_URL = process.env.GOOGLE_CALLBACK_URL;
+const GOOGLE_TOKEN_URL =
+  process.env.GOOGLE_TOKEN_URL || "https://oauth2.googleapis.com/token";
+const GOOGLE_JWKS_URL =
+  process.env.GOOGLE_JWKS_URL || "https://www.googleapis.com/oauth2/v3/certs";
+const GOOGLE_ISSUERS = (
+  process.env.GOOGLE_ISSUERS || "https://accounts.google.com,accounts.google.com"
+).split(",") as [string, ...string[]];
+
+type OAuthProvider = typeof AuthProvider.GITHUB | typeof AuthProvider.GOOGLE;
+
+// Provider account details needed to sign in or link
+interface OAuthProfile {
+  provider: OAuthProvider;
+  providerId: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+  avatar?: string;
+  accessToken?: string;
+}
+
+const PROVIDER_ID_FIELDS = {
+  [AuthProvider.GITHUB]: "githubId",
+  [AuthProvider.GOOGLE]: "googleId",
+} as const;
+
+const PROVIDER_DEFAULT_NAMES = {
+  [AuthProvider.GITHUB]: "GitHub User",
+  [AuthProvider.GOOGLE]: "Google User",
+};
+
+// Claims of a Google ID token used for sign-in
+interface GoogleIdToken extends jwt.JwtPayload {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  picture?: string;
+}
 
 export class AuthService {
   /**
    * Generates JWT access and refresh tokens
    * @param user User object
+   * @param tokenId Session identifier, kept across refreshes so that revoking
+   * a session covers every access token it issued
+   * @param generation Rotation count of the session's refresh token
    * @returns Object containing access and refresh tokens
    */
-  private generateTokens(user: SafeUser): {
+  private generateTokens(
+    user: SafeUser,
+    tokenId: string = crypto.randomUUID(),
+    generation = 0
+  ): {
     accessToken: string;
     refreshToken: string;
     tokenId: string;
   } {
-    // Generate a unique token identifier
-    const tokenId = crypto.randomUUID?.() || Date.now().toString();
-
     const accessToken = jwt.sign(
       {
         email: user.email,
@@ -59,6 +167,7 @@ export class AuthService {
       {
         sub: user.id,
         jti: tokenId,
+        gen: generation,
       },
       REFRESH_SECRET,
       { expiresIn: REFRESH_TOKEN_EXPIRY }
@@ -68,38 +177,53 @@ export class AuthService {
   }
 
   /**
-   * Stores refresh token in Redis with metadata
+   * Stores the session of a refresh token in Redis with metadata
    * @param userId User ID
-   * @param refreshToken Refresh token
-   * @param tokenId Unique token identifier
+   * @param tokenId Session identifier
+   * @param res Response of the current request, for device details
+   * @param family When the session started and its current generation,
+   * defaults to a new session
    */
   private async storeRefreshToken(
     userId: string,
-    refreshToken: string,
-    tokenId: string
+    tokenId: string,
+    res: Response,
+    family: { createdAt: string; generation: number } = {
+      createdAt: new Date().toISOString(),
+      generation: 0,
+    }
   ): Promise<void> {
-    const tokenData = JSON.stringify({
+    const session: SessionData = {
       userId,
       tokenId,
-      createdAt: new Date().toISOString(),
-    });
+      generation: family.generation,
+      createdAt: family.createdAt,
+      lastUsedAt: new Date().toISOString(),
+      userAgent: res.req?.headers["user-agent"],
+      ip: res.req?.ip,
+    };
 
-    try {
-      // Store token with user ID as part of the key for easy lookup
-      await redis.set(
-        `refresh_token:${userId}:${tokenId}`,
-        tokenData,
-        "EX",
-        REFRESH_TOKEN_EXPIRY
-      );
+    // The sliding window never extends past the absolute session lifetime
+    const remainingLifetime =
+      SESSION_MAX_LIFETIME -
+      Math.floor((Date.now() - Date.parse(family.createdAt)) / 1000);
+    const ttl = Math.max(1, Math.min(REFRESH_TOKEN_EXPIRY, remainingLifetime));
 
-      // Also store by token value for validation
-      await redis.set(
-        `token:${refreshToken}`,
-        tokenData,
-        "EX",
-        REFRESH_TOKEN_EXPIRY
-      );
+    try {
+      // Store session with user ID as part of the key for easy lookup, and
+      // index it per user. Index entries of expired sessions are pruned when
+      // listed, the index itself outlives any session it may hold.
+      await redis
+        .multi()
+        .set(
+          `refresh_token:${userId}:${tokenId}`,
+          JSON.stringify(session),
+          "EX",
+          ttl
+        )
+        .sadd(sessionIndexKey(userId), tokenId)
+        .expire(sessionIndexKey(userId), SESSION_MAX_LIFETIME)
+        .exec();
     } catch (error) {
       logger.error("Error storing refresh token:", error);
       throw new GraphQLError("Failed to store authentication data", {
@@ -124,6 +248,116 @@ export class AuthService {
     });
   }
 
+  /**
+   * Issues an access/refresh token pair and sets the refresh token cookie
+   * @param user Authenticated user
+   * @param res Express response object
+   * @returns Access token, refresh token and the user without its password
+   */
+  async issueSession(user: User, res: Response): Promise<AuthResponse> {
+    // Remove password from user object
+    const safeUser = toSafeUser(user);
+
+    // Generate tokens
+    const { accessToken, refreshToken, tokenId } =
+      this.generateTokens(safeUser);
+
+    // Store refresh token
+    await this.storeRefreshToken(user.id, tokenId, res);
+
+    // Set refresh token cookie
+    this.setRefreshTokenCookie(res, refreshToken);
+
+    return {
+      token: accessToken,
+      refreshToken,
+      user: safeUser,
+    };
+  }
+
+  /**
+   * Authenticates a user with email and password
+   * @param email User email
+   * @param password Plain text password
+   * @param res Express response object
+   * @throws AuthenticationError with the same message for unknown emails,
+   * wrong passwords and accounts without a password
+   */
+  async login(
+    email: string,
+    password: string,
+    res: Response
+  ): Promise<AuthResponse> {
+    const user = await prisma.user.findUnique({
+      where: { email: email.trim().toLowerCase() },
+    });
+
+    // Hash anyway so response times don't reveal which emails exist
+    const passwordHash = user?.password || (await this.getDummyHash());
+    const isValid = await verifyPassword(password, passwordHash);
+
+    if (!user?.password || !isValid) {
+      logger.warn("Email login failed", { email });
+      throw new AuthenticationError("Invalid email or password");
+    }
+
+    const session = await this.issueSession(user, res);
+
+    logger.info(`User ${user.id} authenticated via email`);
+
+    return session;
+  }
+
+  /**
+   * Changes the password of an email account after checking the current one
+   * @param userId User ID
+   * @param currentPassword Current plain text password
+   * @param newPassword New plain text password, checked against the policy
+   */
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string
+  ): Promise<{ success: boolean; message: string }> {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new CustomError("User not found", ErrorCode.NOT_FOUND);
+    }
+    if (!user.password) {
+      throw new CustomError(
+        "This account does not use a password",
+        ErrorCode.BAD_REQUEST
+      );
+    }
+
+    if (!(await verifyPassword(currentPassword, user.password))) {
+      logger.warn(`Password change failed for user ${userId}: wrong password`);
+      throw new AuthenticationError("Current password is incorrect");
+    }
+    if (currentPassword === newPassword) {
+      throw new ValidationError(
+        "New password must differ from the current password"
+      );
+    }
+    assertPasswordPolicy(newPassword);
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { password: await hashPassword(newPassword) },
+    });
+
+    logger.info(`Password changed for user ${userId}`);
+
+    return { success: true, message: "Password changed successfully" };
+  }
+
+  private dummyHash?: Promise<string>;
+
+  private getDummyHash(): Promise<string> {
+    this.dummyHash ??= hashPassword(crypto.randomUUID());
+    return this.dummyHash;
+  }
+
   /**
    * Refreshes access token using refresh token
    * @param refreshToken Refresh token
@@ -138,32 +372,61 @@ export class AuthService {
       const decoded = jwt.verify(refreshToken, REFRESH_SECRET) as {
         sub: string;
         jti: string;
+        gen?: number;
       };
       const userId = decoded.sub;
       const tokenId = decoded.jti;
+      const generation = decoded.gen ?? 0;
 
-      // Check if refresh token exists in Redis
-      const tokenData = await redis.get(`token:${refreshToken}`);
-      if (!tokenData) {
-        logger.warn(
-          `Token refresh failed: Token not found in Redis for user ${userId}`
-        );
+      // Logout and password resets revoke sessions by removing this key
+      const sessionData = await redis.get(`refresh_token:${userId}:${tokenId}`);
+      if (!sessionData) {
+        logger.warn(`Token refresh failed: Session not found for user ${userId}`);
         throw new GraphQLError("Invalid refresh token", {
           extensions: { code: "UNAUTHORIZED" },
         });
       }
+      const session = JSON.parse(sessionData) as SessionData;
 
-      // Parse token data
-      const parsedTokenData = JSON.parse(tokenData);
-
-      // Verify token belongs to the correct user
-      if (parsedTokenData.userId !== userId) {
-        logger.warn(`Token refresh failed: Token belongs to different user`);
+      // Only the latest token of a family may be used, and only once. Anything
+      // else means the token was copied, so the whole family is revoked.
+      const isLatest = generation === (session.generation ?? 0);
+      const claimedRotation =
+        isLatest &&
+        (await redis.set(
+          `refresh_rotation:${tokenId}:${generation}`,
+          "1",
+          "EX",
+          REFRESH_TOKEN_EXPIRY,
+          "NX"
+        ));
+      if (!claimedRotation) {
+        await this.revokeSessionTokens(userId, tokenId);
+        logger.warn("[Security] Refresh token reuse detected, session revoked", {
+          event: "refresh_token_reuse",
+          userId,
+          tokenId,
+          presentedGeneration: generation,
+          currentGeneration: session.generation ?? 0,
+          ip: res.req?.ip,
+          userAgent: res.req?.headers["user-agent"],
+        });
         throw new GraphQLError("Invalid refresh token", {
           extensions: { code: "UNAUTHORIZED" },
         });
       }
 
+      if (
+        Date.now() - Date.parse(session.createdAt) >
+        SESSION_MAX_LIFETIME * 1000
+      ) {
+        await this.revokeSessionTokens(userId, tokenId);
+        logger.info(`Session ${tokenId} of user ${userId} reached its lifetime`);
+        throw new GraphQLError("Session expired, please sign in again", {
+          extensions: { code: "UNAUTHORIZED" },
+        });
+      }
+
       // Get user from database
       const user = await prisma.user.findUnique({
         where: { id: userId },
@@ -176,19 +439,15 @@ export class AuthService {
         });
       }
 
-      const { ...safeUser } = user;
-      const {
-        accessToken,
-        refreshToken: newRefreshToken,
-        tokenId: newTokenId,
-      } = this.generateTokens(safeUser);
+      const safeUser = toSafeUser(user);
+      const { accessToken, refreshToken: newRefreshToken } =
+        this.generateTokens(safeUser, tokenId, generation + 1);
 
-      // Invalidate old token
-      await redis.del(`token:${refreshToken}`);
-      await redis.del(`refresh_token:${userId}:${tokenId}`);
-
-      // Store new refresh token
-      await this.storeRefreshToken(userId, newRefreshToken, newTokenId);
+      // Store the next generation, retiring the presented token
+      await this.storeRefreshToken(userId, tokenId, res, {
+        createdAt: session.createdAt,
+        generation: generation + 1,
+      });
 
       // Fix: Use newRefreshToken instead of refreshToken
       this.setRefreshTokenCookie(res, newRefreshToken);
@@ -222,18 +481,256 @@ export class AuthService {
     }
   }
 
+  /**
+   * Removes every refresh token of a user, ending all of their sessions
+   * @param userId User ID
+   */
+  private async revokeAllSessions(userId: string): Promise<void> {
+    const tokenIds = await redis.smembers(sessionIndexKey(userId));
+    if (tokenIds.length > 0) {
+      await redis.del(
+        ...tokenIds.map((tokenId) => `refresh_token:${userId}:${tokenId}`),
+        sessionIndexKey(userId)
+      );
+      await Promise.all(tokenIds.map((tokenId) => this.denyTokenId(tokenId)));
+      logger.info(
+        `Removed ${tokenIds.length} refresh tokens for user ${userId}`
+      );
+    }
+  }
+
+  /**
+   * Ends a session: its refresh tokens stop working and its access tokens
+   * are denied
+   * @param userId User ID
+   * @param tokenId Session identifier
+   * @returns Whether the session still existed
+   */
+  private async revokeSessionTokens(
+    userId: string,
+    tokenId: string
+  ): Promise<boolean> {
+    const removed = await redis.del(`refresh_token:${userId}:${tokenId}`);
+    await redis.srem(sessionIndexKey(userId), tokenId);
+    await this.denyTokenId(tokenId);
+    return removed > 0;
+  }
+
+  /**
+   * Rejects access tokens of a session until they would have expired anyway
+   * @param tokenId Session identifier (`jti` claim)
+   */
+  private async denyTokenId(tokenId: string): Promise<void> {
+    await redis.set(`revoked_jti:${tokenId}`, "1", "EX", ACCESS_TOKEN_EXPIRY);
+  }
+
+  /**
+   * Whether an access token belongs to a revoked session
+   * @param tokenId `jti` claim of the access token
+   */
+  async isTokenRevoked(tokenId: string): Promise<boolean> {
+    return (await redis.exists(`revoked_jti:${tokenId}`)) === 1;
+  }
+
+  /**
+   * Records that a session was used, at most once per SESSION_TOUCH_INTERVAL
+   * @param userId User ID
+   * @param tokenId Session identifier
+   */
+  async touchSession(userId: string, tokenId: string): Promise<void> {
+    const key = `refresh_token:${userId}:${tokenId}`;
+    const data = await redis.get(key);
+    if (!data) return;
+
+    const session = JSON.parse(data) as SessionData;
+    const lastUsedAt = Date.parse(session.lastUsedAt || session.createdAt);
+    if (Date.now() - lastUsedAt < SESSION_TOUCH_INTERVAL * 1000) return;
+
+    session.lastUsedAt = new Date().toISOString();
+    await redis.set(key, JSON.stringify(session), "KEEPTTL");
+  }
+
+  /**
+   * Lists the active sessions of a user, most recently used first
+   * @param userId User ID
+   * @param currentTokenId Session of the request, flagged as `current`
+   */
+  async listSessions(
+    userId: string,
+    currentTokenId?: string
+  ): Promise<SessionInfo[]> {
+    const tokenIds = await redis.smembers(sessionIndexKey(userId));
+    if (tokenIds.length === 0) return [];
+
+    const values = await redis.mget(
+      tokenIds.map((tokenId) => `refresh_token:${userId}:${tokenId}`)
+    );
+    const expired = tokenIds.filter((_, i) => !values[i]);
+    if (expired.length > 0) {
+      await redis.srem(sessionIndexKey(userId), ...expired);
+    }
+
+    return values
+      .filter((value): value is string => !!value)
+      .map((value) => JSON.parse(value) as SessionData)
+      .map((session) => ({
+        tokenId: session.tokenId,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt || session.createdAt,
+        current: session.tokenId === currentTokenId,
+      }))
+      .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  }
+
+  /**
+   * Ends one session of a user
+   * @param userId User ID
+   * @param tokenId Session identifier from `mySessions`
+   */
+  async revokeSession(
+    userId: string,
+    tokenId: string
+  ): Promise<{ success: boolean; message: string }> {
+    if (!(await this.revokeSessionTokens(userId, tokenId))) {
+      throw new CustomError("Session not found", ErrorCode.NOT_FOUND);
+    }
+
+    logger.info(`Session ${tokenId} revoked for user ${userId}`);
+
+    return { success: true, message: "Session revoked" };
+  }
+
+  /**
+   * Emails a single-use password reset link. Always resolves with the same
+   * response so callers can't tell whether the email has an account.
+   * @param email Account email
+   */
+  async requestPasswordReset(
+    email: string
+  ): Promise<{ success: boolean; message: string }> {
+    const response = {
+      success: true,
+      message: "If an account exists for this email, a reset link has been sent",
+    };
+
+    const user = await prisma.user.findUnique({
+      where: { email: email.trim().toLowerCase() },
+    });
+    if (!user) {
+      logger.info("Password reset requested for unknown email");
+      return response;
+    }
+
+    // Throttled silently, an error here would confirm the account exists
+    const cooldownSet = await redis.set(
+      `password_reset_cooldown:${user.id}`,
+      "1",
+      "EX",
+      PASSWORD_RESET_COOLDOWN,
+      "NX"
+    );
+    if (!cooldownSet) {
+      logger.warn(`Password reset throttled for user ${user.id}`);
+      return response;
+    }
+
+    const token = randomBytes(32).toString("hex");
+    const tokenHash = createHash("sha256").update(token).digest("hex");
+
+    // Only the latest link works, requesting again invalidates older ones
+    const previousHash = await redis.get(`password_reset_user:${user.id}`);
+    if (previousHash) {
+      await redis.del(`password_reset:${previousHash}`);
+    }
+    await redis.set(
+      `password_reset:${tokenHash}`,
+      user.id,
+      "EX",
+      PASSWORD_RESET_TOKEN_EXPIRY
+    );
+    await redis.set(
+      `password_reset_user:${user.id}`,
+      tokenHash,
+      "EX",
+      PASSWORD_RESET_TOKEN_EXPIRY
+    );
+
+    const link = `${PASSWORD_RESET_URL}?token=${token}`;
+    // Not awaited so response time doesn't depend on the account existing
+    mailService
+      .send({
+        to: user.email,
+        subject: "Reset your password",
+        text: [
+          `Hi ${user.name || "there"},`,
+          "",
+          "Reset your password by opening the link below:",
+          link,
+          "",
+          `The link expires in ${Math.round(PASSWORD_RESET_TOKEN_EXPIRY / 60)} minutes.`,
+          "If you didn't ask for a reset, you can ignore this email.",
+        ].join("\n"),
+      })
+      .catch((error) =>
+        logger.error("Failed to send password reset email", {
+          userId: user.id,
+          error: error.message,
+        })
+      );
+
+    logger.info(`Password reset requested for user ${user.id}`);
+
+    return response;
+  }
+
+  /**
+   * Sets a new password using a reset token and signs out every session
+   * @param token Token from the reset link, consumed on use
+   * @param newPassword New plain text password, checked against the policy
+   */
+  async resetPassword(
+    token: string,
+    newPassword: string
+  ): Promise<{ success: boolean; message: string }> {
+    assertPasswordPolicy(newPassword);
+
+    const tokenHash = createHash("sha256").update(token).digest("hex");
+    const userId = await redis.getdel(`password_reset:${tokenHash}`);
+    if (!userId) {
+      logger.warn("Password reset failed: unknown or expired token");
+      throw new CustomError(
+        "Invalid or expired password reset token",
+        ErrorCode.BAD_REQUEST
+      );
+    }
+    await redis.del(`password_reset_user:${userId}`);
+
+    // The reset link reached the inbox, which also proves the address
+    await prisma.user.update({
+      where: { id: userId },
+      data: { password: await hashPassword(newPassword), isVerified: true },
+    });
+    await this.revokeAllSessions(userId);
+
+    logger.info(`Password reset for user ${userId}`);
+
+    return { success: true, message: "Password has been reset" };
+  }
+
   /**
    * Handles user logout
    * @param userId User ID
    * @param res Express response object
+   * @param tokenId When set only this session ends, otherwise all of them
    */
-  async logout(userId: string, res: Response): Promise<void> {
+  async logout(userId: string, res: Response, tokenId?: string): Promise<void> {
     try {
-      // Find and remove all refresh tokens for this user
-      const keys = await redis.keys(`refresh_token:${userId}:*`);
-      if (keys.length > 0) {
-        await redis.del(keys);
-        logger.info(`Removed ${keys.length} refresh tokens for user ${userId}`);
+      if (tokenId) {
+        await this.revokeSessionTokens(userId, tokenId);
+      } else {
+        await this.revokeAllSessions(userId);
       }
 
       // Clear refresh token cookie
@@ -270,113 +767,384 @@ export class AuthService {
   }
 
   /**
-   * Handles GitHub OAuth authentication
+   * Exchanges a GitHub authorization code for the user's GitHub profile
    * @param code GitHub authorization code
-   * @param res Express response object
    */
-  async githubAuth(code: string, res: Response): Promise<AuthResponse> {
-    try {
-      // Exchange code for access token
-      const tokenResponse = await axios.post(
-        "https://github.com/login/oauth/access_token",
-        {
-          client_id: GITHUB_CLIENT_ID,
-          client_secret: GITHUB_CLIENT_SECRET,
-          code,
-          redirect_uri: GITHUB_CALLBACK_URL,
+  private async fetchGithubProfile(code: string): Promise<OAuthProfile> {
+    // Exchange code for access token
+    const tokenResponse = await axios.post(
+      GITHUB_TOKEN_URL,
+      {
+        client_id: GITHUB_CLIENT_ID,
+        client_secret: GITHUB_CLIENT_SECRET,
+        code,
+        redirect_uri: GITHUB_CALLBACK_URL,
+      },
+      {
+        headers: {
+          Accept: "application/json",
         },
-        {
-          headers: {
-            Accept: "application/json",
-          },
-        }
-      );
+      }
+    );
 
-      const accessToken = tokenResponse.data.access_token;
+    const accessToken = tokenResponse.data.access_token;
+    if (!accessToken) {
+      throw new AuthenticationError("GitHub did not return an access token");
+    }
 
-      // Get user data from GitHub
-      const githubUser = await axios.get("https://api.github.com/user", {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-        },
-      });
+    // Get user data from GitHub
+    const githubUser = await axios.get(`${GITHUB_API_URL}/user`, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    });
+
+    // Get user email from GitHub
+    const emails = await axios.get(`${GITHUB_API_URL}/user/emails`, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    });
 
-      // Get user email from GitHub
-      const emails = await axios.get("https://api.github.com/user/emails", {
+    const primaryEmail = emails.data.find((email: any) => email.primary);
+
+    return {
+      provider: AuthProvider.GITHUB,
+      providerId: githubUser.data.id.toString(),
+      email: primaryEmail?.email,
+      emailVerified: !!primaryEmail?.verified,
+      name: githubUser.data.name || undefined,
+      avatar: githubUser.data.avatar_url,
+      accessToken,
+    };
+  }
+
+  /**
+   * Exchanges a Google authorization code and verifies the returned ID token
+   * @param code Google authorization code
+   */
+  private async fetchGoogleProfile(code: string): Promise<OAuthProfile> {
+    // Without a client id the ID token audience cannot be checked, and
+    // tokens issued to any other app would be accepted
+    if (!GOOGLE_CLIENT_ID) {
+      logger.error("Google sign-in attempted but GOOGLE_CLIENT_ID is not set");
+      throw new CustomError(
+        "Google sign-in is not configured",
+        ErrorCode.SERVICE_UNAVAILABLE
+      );
+    }
+
+    // Exchange code for tokens
+    const tokenResponse = await axios.post(
+      GOOGLE_TOKEN_URL,
+      new URLSearchParams({
+        client_id: GOOGLE_CLIENT_ID,
+        client_secret: GOOGLE_CLIENT_SECRET || "",
+        code,
+        redirect_uri: GOOGLE_CALLBACK_URL || "",
+        grant_type: "authorization_code",
+      }),
+      {
         headers: {
-          Authorization: `Bearer ${accessToken}`,
+          Accept: "application/json",
+          "Content-Type": "application/x-www-form-urlencoded",
         },
-      });
+      }
+    );
+
+    const idToken = tokenResponse.data.id_token;
+    if (!idToken) {
+      throw new AuthenticationError("Google did not return an ID token");
+    }
+
+    // The ID token is only trusted once its signature checks out
+    let profile: GoogleIdToken;
+    try {
+      profile = await verifyJwtWithJwks<GoogleIdToken>(
+        idToken,
+        GOOGLE_JWKS_URL,
+        { audience: GOOGLE_CLIENT_ID, issuer: GOOGLE_ISSUERS }
+      );
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new AuthenticationError("Google ID token has expired");
+      }
+      if (error instanceof jwt.JsonWebTokenError) {
+        logger.warn("Google ID token rejected", { error: error.message });
+        throw new AuthenticationError("Invalid Google ID token");
+      }
+      throw error;
+    }
+
+    return {
+      provider: AuthProvider.GOOGLE,
+      providerId: profile.sub,
+      email: profile.email,
+      emailVerified: !!profile.email_verified,
+      name: profile.name,
+      avatar: profile.picture,
+    };
+  }
+
+  private fetchOAuthProfile(provider: AuthProvider, code: string) {
+    switch (provider) {
+      case AuthProvider.GITHUB:
+        return this.fetchGithubProfile(code);
+      case AuthProvider.GOOGLE:
+        return this.fetchGoogleProfile(code);
+      default:
+        throw new CustomError(
+          `${provider} is not an OAuth provider, set a password instead`,
+          ErrorCode.BAD_REQUEST
+        );
+    }
+  }
 
-      const primaryEmail = emails.data.find(
-        (email: any) => email.primary
-      )?.email;
-
-      // Type-safe approach for finding user
-      let user = await prisma.user.findFirst({
-        where: {
-          OR: [
-            { email: primaryEmail },
-            { githubId: githubUser.data.id.toString() },
-          ],
+  /**
+   * Finds the user signing in with an OAuth profile, creating one if needed.
+   * An existing account with the same email is only linked when both sides
+   * have verified the address; otherwise the user has to sign in and call
+   * `linkProvider`.
+   * @param profile Provider profile
+   */
+  private async findOrCreateOAuthUser(profile: OAuthProfile): Promise<User> {
+    const idField = PROVIDER_ID_FIELDS[profile.provider];
+    const providerData = {
+      [idField]: profile.providerId,
+      ...(profile.provider === AuthProvider.GITHUB && {
+        githubToken: profile.accessToken,
+      }),
+    };
+
+    const linkedUser = await prisma.user.findFirst({
+      where: { [idField]: profile.providerId },
+    });
+    if (linkedUser) {
+      return prisma.user.update({
+        where: { id: linkedUser.id },
+        data: {
+          ...providerData,
+          avatar: linkedUser.avatar || profile.avatar,
+          name: linkedUser.name || profile.name,
         },
       });
+    }
 
-      if (!user) {
-        // Create new user with type-safe data
-        user = await prisma.user.create({
-          data: {
-            email: primaryEmail,
-            name: githubUser.data.name || "GitHub User",
-            avatar: githubUser.data.avatar_url,
-            role: "USER",
-            authProvider: "GITHUB",
-            githubId: githubUser.data.id.toString(),
-            githubToken: accessToken,
-          },
-        });
-      } else {
-        // Update existing user with type-safe data
-        user = await prisma.user.update({
-          where: { id: user.id },
-          data: {
-            githubId: githubUser.data.id.toString(),
-            githubToken: accessToken,
-            avatar: githubUser.data.avatar_url,
-            name: user.name || githubUser.data.name,
-            authProvider: "GITHUB",
-          },
+    if (!profile.email) {
+      throw new AuthenticationError(
+        `${profile.provider} account has no email address`
+      );
+    }
+    const email = profile.email.toLowerCase();
+    const existingUser = await prisma.user.findUnique({ where: { email } });
+
+    if (existingUser) {
+      if (!profile.emailVerified || !existingUser.isVerified) {
+        logger.warn("OAuth sign-in refused: email matches unlinked user", {
+          provider: profile.provider,
+          userId: existingUser.id,
+          providerEmailVerified: profile.emailVerified,
         });
+        throw new AuthenticationError(
+          `An account with this email already exists. Sign in to it and link your ${profile.provider} account instead`
+        );
       }
 
-      // Remove password from user object
-      const { ...safeUser } = user;
+      const user = await prisma.user.update({
+        where: { id: existingUser.id },
+        data: {
+          ...providerData,
+          avatar: existingUser.avatar || profile.avatar,
+          name: existingUser.name || profile.name,
+        },
+      });
+      logger.info(`${profile.provider} account linked to user ${user.id}`);
+      return user;
+    }
 
-      // Generate tokens
-      const {
-        accessToken: jwtToken,
-        refreshToken,
-        tokenId,
-      } = this.generateTokens(safeUser);
+    return prisma.user.create({
+      data: {
+        ...providerData,
+        email,
+        name: profile.name || PROVIDER_DEFAULT_NAMES[profile.provider],
+        avatar: profile.avatar,
+        role: "USER",
+        authProvider: profile.provider,
+        isVerified: profile.emailVerified,
+      },
+    });
+  }
 
-      // Store refresh token
-      await this.storeRefreshToken(user.id, refreshToken, tokenId);
+  /**
+   * Handles GitHub OAuth authentication
+   * @param code GitHub authorization code
+   * @param res Express response object
+   */
+  async githubAuth(code: string, res: Response): Promise<AuthResponse> {
+    try {
+      const profile = await this.fetchGithubProfile(code);
+      const user = await this.findOrCreateOAuthUser(profile);
 
-      // Set refresh token cookie
-      this.setRefreshTokenCookie(res, refreshToken);
+      const session = await this.issueSession(user, res);
 
       logger.info(`User ${user.id} authenticated via GitHub`);
 
-      return {
-        token: jwtToken,
-        refreshToken,
-        user: safeUser,
-      };
+      return session;
     } catch (error) {
+      if (error instanceof GraphQLError) {
+        throw error;
+      }
+
       logger.error("GitHub authentication error:", error);
       throw new GraphQLError("GitHub authentication failed", {
         extensions: { code: "INTERNAL_SERVER_ERROR" },
       });
     }
   }
+
+  /**
+   * Handles Google OAuth authentication (OpenID Connect)
+   * @param code Google authorization code
+   * @param res Express response object
+   */
+  async googleAuth(code: string, res: Response): Promise<AuthResponse> {
+    try {
+      const profile = await this.fetchGoogleProfile(code);
+      const user = await this.findOrCreateOAuthUser(profile);
+
+      const session = await this.issueSession(user, res);
+
+      logger.info(`User ${user.id} authenticated via Google`);
+
+      return session;
+    } catch (error) {
+      if (error instanceof GraphQLError) {
+        throw error;
+      }
+
+      logger.error("Google authentication error:", error);
+      throw new GraphQLError("Google authentication failed", {
+        extensions: { code: "INTERNAL_SERVER_ERROR" },
+      });
+    }
+  }
+
+  /**
+   * Lists the sign-in methods connected to a user
+   * @param user User with its password hash and provider ids
+   */
+  getConnectedProviders(
+    user: Pick<User, "password" | "githubId" | "googleId">
+  ): AuthProvider[] {
+    const providers: AuthProvider[] = [];
+    if (user.password) providers.push(AuthProvider.EMAIL);
+    if (user.githubId) providers.push(AuthProvider.GITHUB);
+    if (user.googleId) providers.push(AuthProvider.GOOGLE);
+    return providers;
+  }
+
+  /**
+   * Connects an OAuth account to the signed-in user
+   * @param userId Signed-in user
+   * @param provider GITHUB or GOOGLE
+   * @param code Authorization code from the provider
+   * @returns Updated user
+   */
+  async linkProvider(
+    userId: string,
+    provider: AuthProvider,
+    code: string
+  ): Promise<SafeUser> {
+    let profile: OAuthProfile;
+    try {
+      profile = await this.fetchOAuthProfile(provider, code);
+    } catch (error) {
+      if (error instanceof GraphQLError) {
+        throw error;
+      }
+
+      logger.error(`${provider} link error:`, error);
+      throw new GraphQLError(`Failed to link ${provider} account`, {
+        extensions: { code: "INTERNAL_SERVER_ERROR" },
+      });
+    }
+
+    const idField = PROVIDER_ID_FIELDS[profile.provider];
+    const owner = await prisma.user.findFirst({
+      where: { [idField]: profile.providerId },
+    });
+    if (owner && owner.id !== userId) {
+      logger.warn(`${provider} account already linked to another user`, {
+        userId,
+        ownerId: owner.id,
+      });
+      throw new CustomError(
+        `This ${provider} account is already linked to another user`,
+        ErrorCode.CONFLICT
+      );
+    }
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        [idField]: profile.providerId,
+        ...(provider === AuthProvider.GITHUB && {
+          githubToken: profile.accessToken,
+        }),
+      },
+    });
+
+    logger.info(`${provider} account linked to user ${userId}`);
+
+    return toSafeUser(user);
+  }
+
+  /**
+   * Disconnects a sign-in method, refusing to remove the last one
+   * @param userId Signed-in user
+   * @param provider EMAIL removes the password, GITHUB/GOOGLE the account link
+   * @returns Updated user
+   */
+  async unlinkProvider(
+    userId: string,
+    provider: AuthProvider
+  ): Promise<SafeUser> {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new CustomError("User not found", ErrorCode.NOT_FOUND);
+    }
+
+    const connected = this.getConnectedProviders(user);
+    if (!connected.includes(provider)) {
+      throw new CustomError(
+        `${provider} is not connected to this account`,
+        ErrorCode.BAD_REQUEST
+      );
+    }
+
+    const remaining = connected.filter((method) => method !== provider);
+    if (remaining.length === 0) {
+      throw new CustomError(
+        "Cannot remove the last sign-in method",
+        ErrorCode.BAD_REQUEST
+      );
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        ...(provider === AuthProvider.EMAIL && { password: null }),
+        ...(provider === AuthProvider.GITHUB && {
+          githubId: null,
+          githubToken: null,
+        }),
+        ...(provider === AuthProvider.GOOGLE && { googleId: null }),
+        ...(user.authProvider === provider && { authProvider: remaining[0] }),
+      },
+    });
+
+    logger.info(`${provider} unlinked from user ${userId}`);
+
+    return toSafeUser(updated);
+  }
 }
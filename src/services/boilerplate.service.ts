@@ -1,16 +1,28 @@
-import { PrismaClient, Prisma } from "@prisma/client";
+import { PrismaClient, Prisma, Visibility } from "@prisma/client";
 import logger from "../utils/logger";
 import {
   CustomError,
   DatabaseError,
+  ErrorCode,
   ValidationError,
 } from "../utils/errorHandler";
 import {
   BoilerplateWhereInput,
   TextMatchMode,
 } from "../types/boilerplate.type";
+import { FileUpload } from "graphql-upload-minimal";
+import { collectFiles, InlineFile } from "../utils/archive";
+import { VersionService } from "./version.service";
+import {
+  listableBoilerplatesSql,
+  listableBoilerplatesWhere,
+} from "../policies/visibility.policy";
+import { assertCanChangeBoilerplate } from "../policies/ownership.policy";
+import { User } from "../types/context";
+import { boilerplateEvent, publish, TOPICS } from "../config/pubsub";
 
 const prisma = new PrismaClient();
+const versionService = new VersionService();
 
 interface BoilerplateOrderByInput {
   title?: Prisma.SortOrder;
@@ -36,7 +48,6 @@ export class BoilerplateService {
         where: { id },
         include: {
           author: true,
-          files: true,
           likes: true,
         },
       });
@@ -49,22 +60,58 @@ export class BoilerplateService {
     }
   }
 
+  /**
+   * Loads only what visibility and ownership checks need
+   * @param id Boilerplate ID
+   * @returns Boilerplate ID, author and visibility, null when missing
+   */
+  async findBoilerplateAccess(id: string) {
+    try {
+      return await prisma.boilerplate.findUnique({
+        where: { id },
+        select: { id: true, authorId: true, visibility: true },
+      });
+    } catch (error: any) {
+      logger.error("[BoilerplateService] Failed to fetch boilerplate access", {
+        error: error.message,
+        id,
+      });
+      throw new CustomError("Failed to fetch boilerplate");
+    }
+  }
+
+  /**
+   * Loads a boilerplate the user is about to change and checks ownership
+   * @param id Boilerplate ID
+   * @param user Acting user
+   * @param action Description used in the authorization error
+   * @throws CustomError NOT_FOUND when missing or hidden from the user
+   * @throws AuthorizationError unless author, moderator or admin
+   */
+  async findBoilerplateForChange(id: string, user: User, action: string) {
+    const boilerplate = await prisma.boilerplate.findUnique({ where: { id } });
+    return assertCanChangeBoilerplate(boilerplate, user, action);
+  }
+
   async findBoilerplates(params: {
     skip?: number;
     take?: number;
-    where?: Prisma.BoilerplateWhereInput;
-    orderBy?: Prisma.BoilerplateOrderByWithRelationInput;
+    where?: BoilerplateWhereInput;
+    orderBy?: BoilerplateOrderByInput;
+    viewer?: User;
   }) {
-    const { skip, take, where, orderBy } = params;
+    const { skip, take, where, orderBy, viewer } = params;
     try {
       return await prisma.boilerplate.findMany({
         skip,
         take,
-        where,
-        orderBy,
+        where: {
+          ...this.buildWhereClause(where),
+          AND: [listableBoilerplatesWhere(viewer)],
+        },
+        orderBy: this.buildOrderByClause(orderBy),
         include: {
           author: true,
-          files: true,
           likes: true,
         },
       });
@@ -75,6 +122,7 @@ export class BoilerplateService {
       throw new CustomError("Failed to fetch boilerplates");
     }
   }
+
   async createBoilerplate(data: {
     title: string;
     description: string;
@@ -92,18 +140,16 @@ export class BoilerplateService {
     complexity?: string;
     views?: number;
     tags?: string[];
-    files?: Array<{
-      name: string;
-      path: string;
-      content: string;
-      contentType?: string;
-      size?: number;
-    }>;
+    visibility?: Visibility;
+    files?: InlineFile[];
+    zipFile?: Promise<FileUpload>;
   }) {
     if (!data.title || !data.authorId || !data.framework || !data.language) {
       throw new CustomError("Missing required fields");
     }
 
+    const files = await collectFiles(data.files, data.zipFile);
+
     const sanitizedTitle = data.title.replace(/[^a-zA-Z0-9-_]/g, "-");
 
     try {
@@ -119,7 +165,7 @@ export class BoilerplateService {
             language: data.language,
             stars: 0,
             downloads: 0,
-            visibility: "PUBLIC",
+            visibility: data.visibility || "PUBLIC",
             isSynced: false,
             readme: data.readme || null,
             coverImage: data.coverImage || null,
@@ -146,20 +192,19 @@ export class BoilerplateService {
           version,
         });
 
-        // 3. Create files if any are provided
-        if (data.files && data.files.length > 0) {
-          await Promise.all(
-            data.files.map((file) =>
-              tx.file.create({
-                data: {
-                  name: file.name,
-                  path: file.path,
-                  content: file.content,
-                  boilerplateId: boilerplate.id,
-                },
-              })
-            )
-          );
+        // 3. Create files (inline and extracted from the zip) on the initial version
+        if (files.length > 0) {
+          await tx.file.createMany({
+            data: files.map((file) => ({
+              ...file,
+              boilerplateId: boilerplate.id,
+              versionId: version.id,
+            })),
+          });
+          logger.info("[BoilerplateService] Boilerplate files created", {
+            boilerplateId: boilerplate.id,
+            count: files.length,
+          });
         }
 
         // 4. Create tags if any are provided
@@ -211,7 +256,6 @@ export class BoilerplateService {
           where: { id: boilerplate.id },
           include: {
             author: true,
-            files: true,
             likes: true,
             comments: true,
           },
@@ -222,6 +266,12 @@ export class BoilerplateService {
       logger.info("[BoilerplateService] Boilerplate record created", {
         result,
       });
+
+      if (result.visibility === Visibility.PUBLIC) {
+        publish(TOPICS.BOILERPLATE_PUBLISHED, {
+          boilerplatePublished: boilerplateEvent(result),
+        });
+      }
       return result;
     } catch (error: any) {
       logger.error("[BoilerplateService] Failed to create boilerplate", error);
@@ -237,22 +287,48 @@ export class BoilerplateService {
       repositoryUrl?: string;
       framework?: string;
       language?: string;
+      visibility?: Visibility;
       // tags?: string[];
-    }
+    },
+    user: User
   ) {
+    const { title, description, repositoryUrl, framework, language, visibility } =
+      data;
+
+    const existing = await this.findBoilerplateForChange(
+      id,
+      user,
+      "update this boilerplate"
+    );
+
     try {
-      return await prisma.boilerplate.update({
+      const boilerplate = await prisma.boilerplate.update({
         where: { id },
         data: {
-          ...data,
+          title,
+          description,
+          repositoryUrl,
+          framework,
+          language,
+          visibility,
           // tags: data.tags || undefined,
         },
         include: {
           author: true,
-          files: true,
           likes: true,
         },
       });
+
+      // Private and unlisted boilerplates are announced once made public
+      if (
+        existing.visibility !== Visibility.PUBLIC &&
+        boilerplate.visibility === Visibility.PUBLIC
+      ) {
+        publish(TOPICS.BOILERPLATE_PUBLISHED, {
+          boilerplatePublished: boilerplateEvent(boilerplate),
+        });
+      }
+      return boilerplate;
     } catch (error: any) {
       logger.error("[BoilerplateService] Failed to update boilerplate", {
         error: error.message,
@@ -262,12 +338,188 @@ export class BoilerplateService {
     }
   }
 
-  async deleteBoilerplate(id: string) {
+  /**
+   * Copies a boilerplate's latest version, tags, category and dependencies
+   * into a new boilerplate owned by the caller
+   * @param id Source boilerplate ID
+   * @param userId Forking user
+   * @param title Optional title for the fork, defaults to the source title
+   */
+  async forkBoilerplate(id: string, userId: string, title?: string) {
+    const source = await prisma.boilerplate.findUnique({
+      where: { id },
+      include: {
+        tagRelations: true,
+        dependencies: true,
+      },
+    });
+
+    // Private boilerplates are indistinguishable from missing ones to others
+    if (
+      !source ||
+      (source.visibility === "PRIVATE" && source.authorId !== userId)
+    ) {
+      throw new CustomError("Boilerplate not found", ErrorCode.NOT_FOUND);
+    }
+
+    const files = await versionService.findVersionFiles(
+      source.id,
+      source.latestVersionNumber
+    );
+
+    try {
+      const fork = await prisma.$transaction(async (tx) => {
+        const fork = await tx.boilerplate.create({
+          data: {
+            title: title
+              ? title.replace(/[^a-zA-Z0-9-_]/g, "-")
+              : source.title,
+            description: source.description,
+            shortDescription: source.shortDescription,
+            repositoryUrl: source.repositoryUrl,
+            framework: source.framework,
+            language: source.language,
+            visibility: source.visibility,
+            readme: source.readme,
+            coverImage: source.coverImage,
+            license: source.license,
+            complexity: source.complexity,
+            authorId: userId,
+            categoryId: source.categoryId,
+            forkedFromId: source.id,
+          },
+        });
+
+        const version = await tx.boilerplateVersion.create({
+          data: {
+            boilerplateId: fork.id,
+            versionNumber: fork.currentVersion,
+            changelog: `Forked from ${source.title}@${source.latestVersionNumber}`,
+          },
+        });
+
+        if (files.length > 0) {
+          await tx.file.createMany({
+            data: files.map(({ name, path, content, contentType, size }) => ({
+              name,
+              path,
+              content,
+              contentType,
+              size,
+              boilerplateId: fork.id,
+              versionId: version.id,
+            })),
+          });
+        }
+
+        if (source.tagRelations.length > 0) {
+          await tx.boilerplateTags.createMany({
+            data: source.tagRelations.map(({ tagId }) => ({
+              boilerplateId: fork.id,
+              tagId,
+            })),
+            skipDuplicates: true,
+          });
+        }
+
+        if (source.dependencies.length > 0) {
+          await tx.dependency.createMany({
+            data: source.dependencies.map(({ name, version, type }) => ({
+              name,
+              version,
+              type,
+              boilerplateId: fork.id,
+            })),
+          });
+        }
+
+        await tx.userActivity.create({
+          data: { userId, boilerplateId: source.id, activityType: "FORK" },
+        });
+
+        return tx.boilerplate.findUnique({
+          where: { id: fork.id },
+          include: {
+            author: true,
+            likes: true,
+          },
+        });
+      });
+
+      logger.info("[BoilerplateService] Boilerplate forked", {
+        sourceId: source.id,
+        forkId: fork?.id,
+        userId,
+        files: files.length,
+      });
+
+      if (fork?.visibility === Visibility.PUBLIC) {
+        publish(TOPICS.BOILERPLATE_PUBLISHED, {
+          boilerplatePublished: boilerplateEvent(fork),
+        });
+      }
+      return fork;
+    } catch (error: any) {
+      logger.error("[BoilerplateService] Failed to fork boilerplate", {
+        error: error.message,
+        id,
+        userId,
+      });
+      throw new CustomError(`Failed to fork boilerplate: ${error.message}`);
+    }
+  }
+
+  async findForks(id: string, viewer?: User) {
+    try {
+      return await prisma.boilerplate.findMany({
+        where: { forkedFromId: id, AND: [listableBoilerplatesWhere(viewer)] },
+        orderBy: { createdAt: "desc" },
+        include: {
+          author: true,
+          likes: true,
+        },
+      });
+    } catch (error: any) {
+      logger.error("[BoilerplateService] Failed to fetch forks", {
+        error: error.message,
+        id,
+      });
+      throw new CustomError("Failed to fetch forks");
+    }
+  }
+
+  // Counts the forks findForks would list, hidden ones are not revealed
+  async countForks(id: string, viewer?: User) {
+    try {
+      return await prisma.boilerplate.count({
+        where: { forkedFromId: id, AND: [listableBoilerplatesWhere(viewer)] },
+      });
+    } catch (error: any) {
+      logger.error("[BoilerplateService] Failed to count forks", {
+        error: error.message,
+        id,
+      });
+      throw new CustomError("Failed to count forks");
+    }
+  }
+
+  async deleteBoilerplate(id: string, user: User) {
+    await this.findBoilerplateForChange(id, user, "delete this boilerplate");
+
     try {
-      await prisma.file.deleteMany({ where: { boilerplateId: id } });
-      await prisma.userLikes.deleteMany({ where: { boilerplateId: id } });
+      // All or nothing, a failure must not leave a half-deleted boilerplate
+      const [, , , boilerplate] = await prisma.$transaction([
+        prisma.file.deleteMany({ where: { boilerplateId: id } }),
+        prisma.userLikes.deleteMany({ where: { boilerplateId: id } }),
+        // Forks outlive their source, they just lose the lineage link
+        prisma.boilerplate.updateMany({
+          where: { forkedFromId: id },
+          data: { forkedFromId: null },
+        }),
+        prisma.boilerplate.delete({ where: { id } }),
+      ]);
 
-      return await prisma.boilerplate.delete({ where: { id } });
+      return boilerplate;
     } catch (error: any) {
       logger.error("[BoilerplateService] Failed to delete boilerplate", {
         error: error.message,
@@ -282,6 +534,7 @@ export class BoilerplateService {
     afterId,
     where,
     orderBy,
+    viewer,
   }: {
     first?: number;
     afterId?: string;
@@ -294,8 +547,11 @@ export class BoilerplateService {
       // tags?: string[];
     };
     orderBy?: BoilerplateOrderByInput;
+    viewer?: User;
   }) {
-    const whereConditions: Prisma.BoilerplateWhereInput = {};
+    const whereConditions: Prisma.BoilerplateWhereInput = {
+      AND: [listableBoilerplatesWhere(viewer)],
+    };
 
     if (where) {
       if (where.title)
@@ -324,7 +580,6 @@ export class BoilerplateService {
         include: {
           author: true,
           likes: true,
-          files: true,
         },
       });
     } catch (error: any) {
@@ -346,6 +601,7 @@ export class BoilerplateService {
     pagination: { first, afterId },
     where,
     orderBy,
+    viewer,
   }: {
     query?: string;
     matchMode?: TextMatchMode;
@@ -353,9 +609,22 @@ export class BoilerplateService {
     pagination: { first: number; afterId?: string };
     where?: BoilerplateWhereInput;
     orderBy?: BoilerplateOrderByInput;
+    viewer?: User;
   }) {
+    if (matchMode === TextMatchMode.FUZZY) {
+      if (!query?.trim()) {
+        throw new ValidationError("FUZZY search requires a query");
+      }
+      if (orderBy && Object.keys(orderBy).length > 0) {
+        throw new ValidationError(
+          "orderBy is not supported with FUZZY, results are ordered by relevance"
+        );
+      }
+    }
+
     try {
       const whereClause = this.buildWhereClause(where);
+      whereClause.AND = [listableBoilerplatesWhere(viewer)];
 
       // Apply cursor-based pagination
       if (afterId) {
@@ -405,12 +674,15 @@ export class BoilerplateService {
             }
             break;
           case TextMatchMode.FUZZY:
-            // For fuzzy search, consider using PostgreSQL's trigram similarity
-            // This requires raw SQL queries and enabling the pg_trgm extension
-            // Example:
-            // const results = await prisma.$queryRaw`SELECT * FROM "Boilerplate" WHERE similarity(title, ${query}) > 0.3 ORDER BY similarity(title, ${query}) DESC LIMIT ${first}`;
-            // return { items: results.map(item => ({ item, score: 1.0 })), totalCount: results.length };
-            break;
+            // Scored, filtered and ordered by relevance in the database
+            return await this.fuzzySearchBoilerplates({
+              query,
+              minRelevanceScore,
+              first,
+              afterId,
+              where,
+              viewer,
+            });
           default:
             break;
         }
@@ -479,6 +751,145 @@ export class BoilerplateService {
     }
   }
 
+  /**
+   * Trigram similarity search over title, description and tag names, using
+   * the pg_trgm GIN indexes. A boilerplate scores its best match: similarity
+   * to the title, the closest word run of the description or its closest tag.
+   * @param options.first Page size, one extra row signals a next page
+   * @param options.afterId Last boilerplate of the previous page
+   * @returns Matches ordered by relevance, then id
+   * @throws ValidationError when `afterId` no longer matches, e.g. its
+   * score changed since the previous page
+   */
+  private async fuzzySearchBoilerplates({
+    query,
+    minRelevanceScore,
+    first,
+    afterId,
+    where,
+    viewer,
+  }: {
+    query: string;
+    minRelevanceScore: number;
+    first: number;
+    afterId?: string;
+    where?: BoilerplateWhereInput;
+    viewer?: User;
+  }) {
+    if (minRelevanceScore < 0 || minRelevanceScore > 1) {
+      throw new ValidationError("minRelevanceScore must be between 0 and 1");
+    }
+
+    const tagScore = Prisma.sql`(
+      SELECT MAX(similarity(t."name", ${query}))
+      FROM "BoilerplateTags" bt JOIN "Tag" t ON t."id" = bt."tagId"
+      WHERE bt."boilerplateId" = b."id"
+    )`;
+    const conditions = [
+      listableBoilerplatesSql(viewer),
+      // Index backed prefilter, the thresholds are set to minRelevanceScore
+      Prisma.sql`(
+        b."title" % ${query}
+        OR ${query} <% b."description"
+        OR EXISTS (
+          SELECT 1 FROM "BoilerplateTags" bt JOIN "Tag" t ON t."id" = bt."tagId"
+          WHERE bt."boilerplateId" = b."id" AND t."name" % ${query}
+        )
+      )`,
+      ...this.buildWhereSql(where),
+    ];
+
+    const scored = Prisma.sql`
+      WITH scored AS (
+        SELECT b."id", GREATEST(
+          similarity(b."title", ${query}),
+          word_similarity(${query}, b."description"),
+          COALESCE(${tagScore}, 0)
+        ) AS score
+        FROM "Boilerplate" b
+        WHERE ${Prisma.join(conditions, " AND ")}
+      ),
+      matches AS (
+        SELECT * FROM scored WHERE score >= ${minRelevanceScore}
+      )`;
+    const after = afterId
+      ? Prisma.sql`AND (
+          score < (SELECT score FROM matches WHERE "id" = ${afterId})
+          OR (score = (SELECT score FROM matches WHERE "id" = ${afterId}) AND "id" > ${afterId})
+        )`
+      : Prisma.empty;
+    // NULL when nothing matches at all
+    const cursorFound = afterId
+      ? Prisma.sql`BOOL_OR("id" = ${afterId})`
+      : Prisma.sql`TRUE`;
+
+    const [page, [{ count, found }]] = await prisma.$transaction(async (tx) => {
+      // Local to this transaction, so the % operators match score >= minimum
+      await tx.$queryRaw`
+        SELECT set_config('pg_trgm.similarity_threshold', ${String(minRelevanceScore)}, true),
+          set_config('pg_trgm.word_similarity_threshold', ${String(minRelevanceScore)}, true)`;
+
+      return Promise.all([
+        tx.$queryRaw<{ id: string; score: number }[]>`
+          ${scored}
+          SELECT "id", score::float8 AS score FROM matches
+          WHERE TRUE ${after}
+          ORDER BY score DESC, "id" ASC
+          LIMIT ${first}`,
+        tx.$queryRaw<{ count: number; found: boolean | null }[]>`
+          ${scored}
+          SELECT COUNT(*)::int AS count, ${cursorFound} AS found FROM matches`,
+      ]);
+    });
+
+    // The page would silently come back empty
+    if (!found) {
+      throw new ValidationError(
+        "Cursor is no longer part of the results, restart the search",
+        { after: afterId }
+      );
+    }
+
+    const boilerplates = await prisma.boilerplate.findMany({
+      where: { id: { in: page.map(({ id }) => id) } },
+      include: {
+        likes: true,
+        author: true,
+      },
+    });
+    const byId = new Map(boilerplates.map((item) => [item.id, item]));
+
+    return {
+      items: page
+        .filter(({ id }) => byId.has(id))
+        .map(({ id, score }) => ({ item: byId.get(id)!, score })),
+      totalCount: count,
+    };
+  }
+
+  // Raw SQL version of buildWhereClause for fuzzy search
+  private buildWhereSql(where?: BoilerplateWhereInput): Prisma.Sql[] {
+    if (!where) return [];
+
+    const contains = (value: string) =>
+      `%${value.replace(/[\\%_]/g, "\\$&")}%`;
+    const conditions: Prisma.Sql[] = [];
+
+    if (where.title) {
+      conditions.push(Prisma.sql`b."title" ILIKE ${contains(where.title)}`);
+    }
+    if (where.description) {
+      conditions.push(
+        Prisma.sql`b."description" ILIKE ${contains(where.description)}`
+      );
+    }
+    if (where.authorId) {
+      conditions.push(Prisma.sql`b."authorId" = ${where.authorId}`);
+    }
+
+    return conditions;
+  }
+
   // Helper method to build where clause
   private buildWhereClause(
     where?: BoilerplateWhereInput
@@ -576,15 +987,20 @@ export class BoilerplateService {
     return orderByClause;
   }
 
-  async countBoilerplates(where?: {
-    title?: string;
-    description?: string;
-    framework?: string;
-    language?: string;
-    authorId?: string;
-    // tags?: string[];
-  }) {
-    const whereConditions: Prisma.BoilerplateWhereInput = {};
+  async countBoilerplates(
+    where?: {
+      title?: string;
+      description?: string;
+      framework?: string;
+      language?: string;
+      authorId?: string;
+      // tags?: string[];
+    },
+    viewer?: User
+  ) {
+    const whereConditions: Prisma.BoilerplateWhereInput = {
+      AND: [listableBoilerplatesWhere(viewer)],
+    };
 
     if (where) {
       if (where.title)
@@ -634,14 +1050,20 @@ export class BoilerplateService {
         }),
       ]);
 
-      return await prisma.boilerplate.findUnique({
+      const boilerplate = await prisma.boilerplate.findUnique({
         where: { id: boilerplateId },
         include: {
           author: true,
-          files: true,
           likes: true,
         },
       });
+
+      if (boilerplate) {
+        publish(TOPICS.BOILERPLATE_LIKED, {
+          boilerplateLiked: boilerplateEvent(boilerplate),
+        });
+      }
+      return boilerplate;
     } catch (error: any) {
       logger.error("[BoilerplateService] Failed to like boilerplate", {
         error: error.message,
@@ -685,7 +1107,6 @@ export class BoilerplateService {
         where: { id: boilerplateId },
         include: {
           author: true,
-          files: true,
           likes: true,
         },
       });
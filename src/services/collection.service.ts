@@ -0,0 +1,473 @@
+import { PrismaClient, UserRole } from "@prisma/client";
+import logger from "../utils/logger";
+import {
+  CustomError,
+  ErrorCode,
+  ValidationError,
+  handleError,
+} from "../utils/errorHandler";
+import { User } from "../types/context";
+import {
+  canViewBoilerplate,
+  canViewCollection,
+  listableBoilerplatesWhere,
+} from "../policies/visibility.policy";
+import { assertCanManage } from "../policies/ownership.policy";
+import { hasRole } from "../policies/role.policy";
+
+const prisma = new PrismaClient();
+
+const COLLECTION_NAME_MAX_LENGTH = 100;
+const COLLECTION_MAX_ITEMS = parseInt(
+  process.env.COLLECTION_MAX_ITEMS || "500"
+);
+const COLLECTION_ITEMS_MAX_PAGE_SIZE = 100;
+
+const collectionInclude = {
+  _count: { select: { boilerplates: true } },
+};
+
+export interface CollectionInput {
+  name?: string;
+  description?: string;
+  isPublic?: boolean;
+}
+
+export class CollectionService {
+  /**
+   * Loads a collection the viewer may see
+   * @throws CustomError NOT_FOUND when missing or private to someone else
+   */
+  async findCollection(id: string, viewer?: User) {
+    const collection = await prisma.collection.findUnique({
+      where: { id },
+      include: collectionInclude,
+    });
+    if (!collection || !canViewCollection(collection, viewer)) {
+      throw new CustomError("Collection not found", ErrorCode.NOT_FOUND);
+    }
+    return collection;
+  }
+
+  /**
+   * Loads a collection the user may change
+   * @throws CustomError NOT_FOUND when missing or hidden from the user
+   * @throws AuthorizationError unless owner, moderator or admin
+   */
+  private async findCollectionForChange(id: string, user: User, action: string) {
+    const collection = await this.findCollection(id, user);
+    assertCanManage(collection.userId, user, action);
+    return collection;
+  }
+
+  private validateInput(input: CollectionInput) {
+    const name = input.name?.trim();
+    if (input.name !== undefined) {
+      if (!name) throw new ValidationError("Collection name is required");
+      if (name.length > COLLECTION_NAME_MAX_LENGTH) {
+        throw new ValidationError(
+          `Collection name must be at most ${COLLECTION_NAME_MAX_LENGTH} characters`
+        );
+      }
+    }
+    return {
+      name,
+      description: input.description?.trim(),
+      isPublic: input.isPublic,
+    };
+  }
+
+  /**
+   * Lists a user's collections. Others only see the public ones.
+   * @param userId Owner
+   * @param viewer Current user, if authenticated
+   */
+  async findUserCollections(userId: string, viewer?: User) {
+    const all = viewer?.sub === userId || hasRole(viewer, UserRole.ADMIN);
+    return prisma.collection.findMany({
+      where: { userId, ...(!all && { isPublic: true }) },
+      orderBy: { updatedAt: "desc" },
+      include: collectionInclude,
+    });
+  }
+
+  /**
+   * Public collections containing a boilerplate
+   * @param boilerplateId Boilerplate ID
+   */
+  async findPublicCollectionsWith(boilerplateId: string) {
+    return prisma.collection.findMany({
+      where: { isPublic: true, boilerplates: { some: { boilerplateId } } },
+      orderBy: { updatedAt: "desc" },
+      include: collectionInclude,
+    });
+  }
+
+  /**
+   * Pages through the boilerplates of a collection in their set order,
+   * leaving out those the viewer may not list
+   * @param collectionId Collection ID, visibility must already be checked
+   * @param options Page size and cursor (collection item ID)
+   * @param viewer Current user, if authenticated
+   * @returns One more item than requested when there is a next page
+   */
+  async findCollectionItems(
+    collectionId: string,
+    options: { first: number; afterId?: string },
+    viewer?: User
+  ) {
+    if (options.first < 1 || options.first > COLLECTION_ITEMS_MAX_PAGE_SIZE) {
+      throw new ValidationError(
+        `first must be between 1 and ${COLLECTION_ITEMS_MAX_PAGE_SIZE}`
+      );
+    }
+
+    const where = {
+      collectionId,
+      boilerplate: listableBoilerplatesWhere(viewer),
+    };
+
+    try {
+      const [items, totalCount] = await Promise.all([
+        prisma.collectionBoilerplates.findMany({
+          where,
+          orderBy: [{ position: "asc" }, { id: "asc" }],
+          take: options.first + 1,
+          ...(options.afterId && {
+            cursor: { id: options.afterId },
+            skip: 1,
+          }),
+          include: {
+            boilerplate: { include: { author: true, likes: true } },
+          },
+        }),
+        prisma.collectionBoilerplates.count({ where }),
+      ]);
+
+      return { items, totalCount };
+    } catch (error: any) {
+      logger.error("[CollectionService] Failed to fetch collection items", {
+        error: error.message,
+        collectionId,
+      });
+      throw handleError(error);
+    }
+  }
+
+  /**
+   * Number of boilerplates in a collection the viewer may list, matches
+   * the `totalCount` of `findCollectionItems`
+   * @param collectionId Collection ID, visibility must already be checked
+   * @param viewer Current user, if authenticated
+   */
+  async countCollectionItems(collectionId: string, viewer?: User) {
+    return prisma.collectionBoilerplates.count({
+      where: { collectionId, boilerplate: listableBoilerplatesWhere(viewer) },
+    });
+  }
+
+  async createCollection(user: User, input: CollectionInput) {
+    const data = this.validateInput({ ...input, name: input.name ?? "" });
+
+    try {
+      const collection = await prisma.$transaction(async (tx) => {
+        const collection = await tx.collection.create({
+          data: {
+            name: data.name!,
+            description: data.description,
+            isPublic: data.isPublic ?? false,
+            userId: user.sub,
+          },
+          include: collectionInclude,
+        });
+
+        await tx.userActivity.create({
+          data: {
+            userId: user.sub,
+            collectionId: collection.id,
+            activityType: "CREATE",
+          },
+        });
+
+        return collection;
+      });
+
+      logger.info("[CollectionService] Collection created", {
+        collectionId: collection.id,
+        userId: user.sub,
+      });
+
+      return collection;
+    } catch (error: any) {
+      logger.error("[CollectionService] Failed to create collection", {
+        error: error.message,
+        userId: user.sub,
+      });
+      throw handleError(error);
+    }
+  }
+
+  /**
+   * Renames a collection or changes its description or privacy
+   * @param id Collection ID
+   * @param input Fields to change
+   * @param user Acting user
+   */
+  async updateCollection(id: string, input: CollectionInput, user: User) {
+    const data = this.validateInput(input);
+    await this.findCollectionForChange(id, user, "update this collection");
+
+    try {
+      const [collection] = await prisma.$transaction([
+        prisma.collection.update({
+          where: { id },
+          data,
+          include: collectionInclude,
+        }),
+        prisma.userActivity.create({
+          data: { userId: user.sub, collectionId: id, activityType: "UPDATE" },
+        }),
+      ]);
+      return collection;
+    } catch (error: any) {
+      logger.error("[CollectionService] Failed to update collection", {
+        error: error.message,
+        id,
+      });
+      throw handleError(error);
+    }
+  }
+
+  async deleteCollection(id: string, user: User) {
+    await this.findCollectionForChange(id, user, "delete this collection");
+
+    try {
+      await prisma.$transaction([
+        // Recorded first, the link is cleared when the collection goes
+        prisma.userActivity.create({
+          data: { userId: user.sub, collectionId: id, activityType: "DELETE" },
+        }),
+        prisma.collection.delete({ where: { id } }),
+      ]);
+
+      logger.info("[CollectionService] Collection deleted", {
+        collectionId: id,
+        userId: user.sub,
+      });
+
+      return true;
+    } catch (error: any) {
+      logger.error("[CollectionService] Failed to delete collection", {
+        error: error.message,
+        id,
+      });
+      throw handleError(error);
+    }
+  }
+
+  /**
+   * Appends a boilerplate to the end of a collection
+   * @param collectionId Collection ID
+   * @param boilerplateId Boilerplate ID, must be visible to the user
+   * @param user Acting user
+   */
+  async addBoilerplate(collectionId: string, boilerplateId: string, user: User) {
+    const collection = await this.findCollectionForChange(
+      collectionId,
+      user,
+      "add to this collection"
+    );
+
+    const boilerplate = await prisma.boilerplate.findUnique({
+      where: { id: boilerplateId },
+      select: { authorId: true, visibility: true },
+    });
+    if (!boilerplate || !canViewBoilerplate(boilerplate, user)) {
+      throw new CustomError("Boilerplate not found", ErrorCode.NOT_FOUND);
+    }
+
+    if (collection._count.boilerplates >= COLLECTION_MAX_ITEMS) {
+      throw new CustomError(
+        `A collection can hold at most ${COLLECTION_MAX_ITEMS} boilerplates`,
+        ErrorCode.BAD_REQUEST
+      );
+    }
+
+    const existing = await prisma.collectionBoilerplates.findUnique({
+      where: { collectionId_boilerplateId: { collectionId, boilerplateId } },
+    });
+    if (existing) {
+      throw new CustomError(
+        "Boilerplate is already in this collection",
+        ErrorCode.CONFLICT
+      );
+    }
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const last = await tx.collectionBoilerplates.aggregate({
+          where: { collectionId },
+          _max: { position: true },
+        });
+
+        await tx.collectionBoilerplates.create({
+          data: {
+            collectionId,
+            boilerplateId,
+            position: (last._max.position ?? -1) + 1,
+          },
+        });
+
+        await tx.userActivity.create({
+          data: {
+            userId: user.sub,
+            boilerplateId,
+            collectionId,
+            activityType: "COLLECT",
+          },
+        });
+
+        // Bumps updatedAt so recently curated collections come first
+        return tx.collection.update({
+          where: { id: collectionId },
+          data: { updatedAt: new Date() },
+          include: collectionInclude,
+        });
+      });
+    } catch (error: any) {
+      logger.error("[CollectionService] Failed to add boilerplate", {
+        error: error.message,
+        collectionId,
+        boilerplateId,
+      });
+      throw handleError(error);
+    }
+  }
+
+  async removeBoilerplate(
+    collectionId: string,
+    boilerplateId: string,
+    user: User
+  ) {
+    await this.findCollectionForChange(
+      collectionId,
+      user,
+      "remove from this collection"
+    );
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const { count } = await tx.collectionBoilerplates.deleteMany({
+          where: { collectionId, boilerplateId },
+        });
+        if (count === 0) {
+          throw new CustomError(
+            "Boilerplate is not in this collection",
+            ErrorCode.NOT_FOUND
+          );
+        }
+
+        await tx.userActivity.create({
+          data: {
+            userId: user.sub,
+            boilerplateId,
+            collectionId,
+            activityType: "UNCOLLECT",
+          },
+        });
+
+        return tx.collection.update({
+          where: { id: collectionId },
+          data: { updatedAt: new Date() },
+          include: collectionInclude,
+        });
+      });
+    } catch (error: any) {
+      logger.error("[CollectionService] Failed to remove boilerplate", {
+        error: error.message,
+        collectionId,
+        boilerplateId,
+      });
+      throw handleError(error);
+    }
+  }
+
+  /**
+   * Sets the order of a collection's boilerplates. Items the user can no
+   * longer list keep their relative order after the reordered ones.
+   * @param collectionId Collection ID
+   * @param boilerplateIds Every boilerplate of the collection the user may
+   * list, in the new order
+   * @param user Acting user
+   */
+  async reorderBoilerplates(
+    collectionId: string,
+    boilerplateIds: string[],
+    user: User
+  ) {
+    await this.findCollectionForChange(
+      collectionId,
+      user,
+      "reorder this collection"
+    );
+
+    const [items, visible] = await Promise.all([
+      prisma.collectionBoilerplates.findMany({
+        where: { collectionId },
+        orderBy: [{ position: "asc" }, { id: "asc" }],
+        select: { id: true, boilerplateId: true },
+      }),
+      prisma.collectionBoilerplates.findMany({
+        where: { collectionId, boilerplate: listableBoilerplatesWhere(user) },
+        select: { boilerplateId: true },
+      }),
+    ]);
+
+    const itemIds = new Map(items.map((item) => [item.boilerplateId, item.id]));
+    const visibleIds = new Set(visible.map((item) => item.boilerplateId));
+    const unique = new Set(boilerplateIds);
+    if (
+      unique.size !== boilerplateIds.length ||
+      unique.size !== visibleIds.size ||
+      boilerplateIds.some((id) => !visibleIds.has(id))
+    ) {
+      throw new ValidationError(
+        "boilerplateIds must list every visible boilerplate of the collection exactly once",
+        { expected: visibleIds.size, received: boilerplateIds.length }
+      );
+    }
+
+    const order = [
+      ...boilerplateIds,
+      ...items
+        .map((item) => item.boilerplateId)
+        .filter((id) => !visibleIds.has(id)),
+    ];
+
+    try {
+      await prisma.$transaction([
+        ...order.map((boilerplateId, position) =>
+          prisma.collectionBoilerplates.update({
+            where: { id: itemIds.get(boilerplateId) },
+            data: { position },
+          })
+        ),
+        prisma.userActivity.create({
+          data: { userId: user.sub, collectionId, activityType: "REORDER" },
+        }),
+      ]);
+
+      return await prisma.collection.update({
+        where: { id: collectionId },
+        data: { updatedAt: new Date() },
+        include: collectionInclude,
+      });
+    } catch (error: any) {
+      logger.error("[CollectionService] Failed to reorder collection", {
+        error: error.message,
+        collectionId,
+      });
+      throw handleError(error);
+    }
+  }
+}
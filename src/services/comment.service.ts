@@ -0,0 +1,306 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import logger from "../utils/logger";
+import {
+  CustomError,
+  ErrorCode,
+  ValidationError,
+  handleError,
+} from "../utils/errorHandler";
+import { User } from "../types/context";
+import { canViewBoilerplate } from "../policies/visibility.policy";
+import { assertCanManage } from "../policies/ownership.policy";
+import {
+  boilerplateEvent,
+  commentEvent,
+  publish,
+  TOPICS,
+} from "../config/pubsub";
+
+const prisma = new PrismaClient();
+
+// Deepest reply level, also the most levels a query can load at once
+const COMMENT_MAX_DEPTH = parseInt(process.env.COMMENT_MAX_DEPTH || "5");
+const COMMENT_MAX_LENGTH = parseInt(process.env.COMMENT_MAX_LENGTH || "5000");
+
+const threadOrder: Prisma.CommentOrderByWithRelationInput[] = [
+  { createdAt: "asc" },
+  { id: "asc" },
+];
+
+const COMMENTS_MAX_PAGE_SIZE = 100;
+
+/**
+ * Deleted comments only stay as placeholders while some reply below them is
+ * not deleted. Threads are at most COMMENT_MAX_DEPTH deep, which bounds the
+ * recursion.
+ */
+const visibleWithin = (depth: number): Prisma.CommentWhereInput =>
+  depth === 0
+    ? { deletedAt: null }
+    : {
+        OR: [
+          { deletedAt: null },
+          { replies: { some: visibleWithin(depth - 1) } },
+        ],
+      };
+
+const visibleInThread = visibleWithin(COMMENT_MAX_DEPTH);
+
+/**
+ * Builds the include loading `depth` levels of replies below a comment
+ * @param depth Reply levels to load, 0 loads none
+ */
+const threadInclude = (depth: number): Prisma.CommentInclude => ({
+  user: true,
+  // Same replies as listed, fully deleted subthreads are not counted
+  _count: { select: { replies: { where: visibleInThread } } },
+  ...(depth > 0 && {
+    replies: {
+      where: visibleInThread,
+      orderBy: threadOrder,
+      include: threadInclude(depth - 1),
+    },
+  }),
+});
+
+export class CommentService {
+  /**
+   * Loads a boilerplate the user may comment on or read comments of
+   * @throws CustomError NOT_FOUND when missing or hidden from the user
+   */
+  private async findVisibleBoilerplate(boilerplateId: string, user?: User) {
+    const boilerplate = await prisma.boilerplate.findUnique({
+      where: { id: boilerplateId },
+      select: { id: true, authorId: true, visibility: true },
+    });
+    if (!boilerplate || !canViewBoilerplate(boilerplate, user)) {
+      throw new CustomError("Boilerplate not found", ErrorCode.NOT_FOUND);
+    }
+    return boilerplate;
+  }
+
+  /**
+   * Loads a comment that is not deleted and belongs to a visible boilerplate
+   * @throws CustomError NOT_FOUND otherwise
+   */
+  private async findActiveComment(id: string, user: User) {
+    const comment = await prisma.comment.findUnique({
+      where: { id },
+      include: {
+        boilerplate: { select: { authorId: true, visibility: true } },
+      },
+    });
+    if (
+      !comment ||
+      comment.deletedAt ||
+      !canViewBoilerplate(comment.boilerplate, user)
+    ) {
+      throw new CustomError("Comment not found", ErrorCode.NOT_FOUND);
+    }
+    return comment;
+  }
+
+  private validateContent(content: string) {
+    const trimmed = content.trim();
+    if (!trimmed) {
+      throw new ValidationError("Comment cannot be empty");
+    }
+    if (trimmed.length > COMMENT_MAX_LENGTH) {
+      throw new ValidationError(
+        `Comment must be at most ${COMMENT_MAX_LENGTH} characters`,
+        { length: trimmed.length }
+      );
+    }
+    return trimmed;
+  }
+
+  /**
+   * Lists top-level comments, oldest first, with their replies nested
+   * @param boilerplateId Boilerplate ID
+   * @param options Page size, cursor (comment ID) and reply levels to load
+   * @param user Current user, if authenticated
+   * @returns One more comment than requested when there is a next page
+   */
+  async findComments(
+    boilerplateId: string,
+    options: { first: number; afterId?: string; depth?: number },
+    user?: User
+  ) {
+    if (options.first < 1 || options.first > COMMENTS_MAX_PAGE_SIZE) {
+      throw new ValidationError(
+        `first must be between 1 and ${COMMENTS_MAX_PAGE_SIZE}`
+      );
+    }
+
+    await this.findVisibleBoilerplate(boilerplateId, user);
+
+    const depth = Math.min(
+      Math.max(options.depth ?? COMMENT_MAX_DEPTH, 0),
+      COMMENT_MAX_DEPTH
+    );
+
+    const where: Prisma.CommentWhereInput = {
+      boilerplateId,
+      parentId: null,
+      ...visibleInThread,
+    };
+
+    try {
+      const [comments, totalCount] = await Promise.all([
+        prisma.comment.findMany({
+          where,
+          orderBy: threadOrder,
+          take: options.first + 1,
+          ...(options.afterId && {
+            cursor: { id: options.afterId },
+            skip: 1,
+          }),
+          include: threadInclude(depth),
+        }),
+        prisma.comment.count({ where }),
+      ]);
+
+      return { comments, totalCount };
+    } catch (error: any) {
+      logger.error("[CommentService] Failed to fetch comments", {
+        error: error.message,
+        boilerplateId,
+      });
+      throw handleError(error);
+    }
+  }
+
+  /**
+   * Adds a comment, or a reply when `parentId` is given
+   * @param user Commenting user
+   * @param data Boilerplate, content and optional parent comment
+   */
+  async addComment(
+    user: User,
+    data: { boilerplateId: string; content: string; parentId?: string }
+  ) {
+    const content = this.validateContent(data.content);
+    const boilerplate = await this.findVisibleBoilerplate(
+      data.boilerplateId,
+      user
+    );
+
+    let depth = 0;
+    if (data.parentId) {
+      const parent = await this.findActiveComment(data.parentId, user);
+      if (parent.boilerplateId !== data.boilerplateId) {
+        throw new ValidationError(
+          "Parent comment belongs to another boilerplate",
+          { parentId: data.parentId }
+        );
+      }
+      depth = parent.depth + 1;
+      if (depth > COMMENT_MAX_DEPTH) {
+        throw new ValidationError(
+          `Replies can be nested at most ${COMMENT_MAX_DEPTH} levels deep`,
+          { parentId: data.parentId }
+        );
+      }
+    }
+
+    try {
+      const comment = await prisma.$transaction(async (tx) => {
+        const comment = await tx.comment.create({
+          data: {
+            userId: user.sub,
+            boilerplateId: data.boilerplateId,
+            parentId: data.parentId,
+            depth,
+            content,
+          },
+          include: threadInclude(0),
+        });
+
+        await tx.userActivity.create({
+          data: {
+            userId: user.sub,
+            boilerplateId: data.boilerplateId,
+            activityType: "COMMENT",
+          },
+        });
+
+        return comment;
+      });
+
+      logger.info("[CommentService] Comment added", {
+        commentId: comment.id,
+        boilerplateId: data.boilerplateId,
+        userId: user.sub,
+      });
+
+      publish(TOPICS.COMMENT_ADDED, {
+        commentAdded: commentEvent(comment),
+        boilerplate: boilerplateEvent(boilerplate),
+      });
+      return comment;
+    } catch (error: any) {
+      logger.error("[CommentService] Failed to add comment", {
+        error: error.message,
+        boilerplateId: data.boilerplateId,
+        userId: user.sub,
+      });
+      throw handleError(error);
+    }
+  }
+
+  /**
+   * Changes the content of a comment
+   * @param id Comment ID
+   * @param content New content
+   * @param user Acting user, the author or a moderator
+   */
+  async editComment(id: string, content: string, user: User) {
+    const trimmed = this.validateContent(content);
+    const comment = await this.findActiveComment(id, user);
+    assertCanManage(comment.userId, user, "edit this comment");
+
+    try {
+      return await prisma.comment.update({
+        where: { id },
+        data: { content: trimmed },
+        include: threadInclude(0),
+      });
+    } catch (error: any) {
+      logger.error("[CommentService] Failed to edit comment", {
+        error: error.message,
+        id,
+      });
+      throw handleError(error);
+    }
+  }
+
+  /**
+   * Soft deletes a comment: its content is wiped but replies stay attached
+   * @param id Comment ID
+   * @param user Acting user, the author or a moderator
+   */
+  async deleteComment(id: string, user: User) {
+    const comment = await this.findActiveComment(id, user);
+    assertCanManage(comment.userId, user, "delete this comment");
+
+    try {
+      await prisma.comment.update({
+        where: { id },
+        data: { content: "", deletedAt: new Date() },
+      });
+
+      logger.info("[CommentService] Comment deleted", {
+        commentId: id,
+        userId: user.sub,
+      });
+
+      return true;
+    } catch (error: any) {
+      logger.error("[CommentService] Failed to delete comment", {
+        error: error.message,
+        id,
+      });
+      throw handleError(error);
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { PrismaClient } from "@prisma/client";
+import logger from "../utils/logger";
+import { CustomError, ErrorCode } from "../utils/errorHandler";
+import { User } from "../types/context";
+import { VersionService } from "./version.service";
+import { AnalyticsService, Visitor } from "./analytics.service";
+import { canViewBoilerplate } from "../policies/visibility.policy";
+
+const prisma = new PrismaClient();
+const versionService = new VersionService();
+const analyticsService = new AnalyticsService();
+
+export class DownloadService {
+  /**
+   * Resolves the files to package for a boilerplate download
+   * @param boilerplateId Boilerplate ID
+   * @param versionNumber Specific version, defaults to the current version
+   * @param user Requesting user, if authenticated
+   * @returns Boilerplate, resolved version number and its files
+   */
+  async prepareDownload(
+    boilerplateId: string,
+    versionNumber: string | undefined,
+    user?: User
+  ) {
+    const boilerplate = await prisma.boilerplate.findUnique({
+      where: { id: boilerplateId },
+    });
+
+    if (!boilerplate) {
+      throw new CustomError("Boilerplate not found", ErrorCode.NOT_FOUND);
+    }
+
+    // UNLISTED boilerplates are downloadable by anyone holding the id
+    if (!canViewBoilerplate(boilerplate, user)) {
+      logger.warn("[DownloadService] Private boilerplate download denied", {
+        boilerplateId,
+        userId: user?.sub,
+      });
+      throw new CustomError("Boilerplate not found", ErrorCode.NOT_FOUND);
+    }
+
+    if (
+      versionNumber &&
+      !(await versionService.findVersion(boilerplateId, versionNumber))
+    ) {
+      throw new CustomError(
+        `Version ${versionNumber} not found`,
+        ErrorCode.NOT_FOUND
+      );
+    }
+
+    const resolvedVersion = versionNumber || boilerplate.currentVersion;
+    const files = await versionService.findVersionFiles(
+      boilerplateId,
+      resolvedVersion
+    );
+
+    return { boilerplate, versionNumber: resolvedVersion, files };
+  }
+
+  /**
+   * Records a completed download: the counters are buffered in Redis and
+   * flushed to Postgres later, signed-in users also get an activity entry
+   * @param boilerplateId Boilerplate ID
+   * @param visitor Downloading user or anonymous client
+   */
+  async recordDownload(boilerplateId: string, visitor: Visitor) {
+    await analyticsService.recordDownload(boilerplateId, visitor);
+
+    if (!visitor.userId) return;
+    try {
+      await prisma.userActivity.create({
+        data: {
+          userId: visitor.userId,
+          boilerplateId,
+          activityType: "DOWNLOAD",
+        },
+      });
+    } catch (error: any) {
+      // A failed activity entry must not break the download itself
+      logger.error("[DownloadService] Failed to record download activity", {
+        error: error.message,
+        boilerplateId,
+        userId: visitor.userId,
+      });
+    }
+  }
+}
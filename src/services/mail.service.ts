@@ -0,0 +1,108 @@
+import { promises as fs } from "fs";
+import path from "path";
+import logger from "../utils/logger";
+
+// "console" logs messages, "file" writes them to MAIL_OUTBOX_DIR. Both are
+// for development, production registers a real one with `setMailTransport`.
+const MAIL_TRANSPORT = process.env.MAIL_TRANSPORT || "console";
+const MAIL_FROM = process.env.MAIL_FROM || "BoilerplateHub <no-reply@localhost>";
+const MAIL_OUTBOX_DIR = process.env.MAIL_OUTBOX_DIR || "mail-outbox";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface SentMail extends MailMessage {
+  from: string;
+  sentAt: string;
+}
+
+/**
+ * Delivers outgoing mail. Implement this to plug in a real provider and
+ * register it with `setMailTransport`.
+ */
+export interface MailTransport {
+  send(mail: SentMail): Promise<void>;
+}
+
+export class ConsoleMailTransport implements MailTransport {
+  async send(mail: SentMail): Promise<void> {
+    logger.info("[ConsoleMailTransport] Outgoing mail", mail);
+  }
+}
+
+/**
+ * Writes each message as a JSON file, handy for local development and for
+ * tests that need to read the links out of sent mail
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string = MAIL_OUTBOX_DIR) {}
+
+  async send(mail: SentMail): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const fileName = `${Date.now()}-${mail.to.replace(/[^\w.@-]/g, "_")}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify(mail, null, 2)
+    );
+  }
+}
+
+const createTransport = (): MailTransport => {
+  switch (MAIL_TRANSPORT) {
+    case "file":
+      return new FileMailTransport();
+    case "console":
+      // Verification and reset links grant access, they must not reach
+      // production logs
+      if (process.env.NODE_ENV === "production") {
+        throw new Error(
+          "MAIL_TRANSPORT=console is not allowed in production, register a transport with setMailTransport"
+        );
+      }
+      return new ConsoleMailTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${MAIL_TRANSPORT}"`);
+  }
+};
+
+// Created on first use, so a transport registered at startup replaces it
+let transport: MailTransport | undefined;
+
+export const setMailTransport = (mailTransport: MailTransport): void => {
+  transport = mailTransport;
+};
+
+export class MailService {
+  /**
+   * Sends a message through the configured transport
+   * @param message Recipient, subject and body
+   */
+  async send(message: MailMessage): Promise<void> {
+    const mail: SentMail = {
+      ...message,
+      from: MAIL_FROM,
+      sentAt: new Date().toISOString(),
+    };
+
+    try {
+      transport ??= createTransport();
+      await transport.send(mail);
+      logger.info("[MailService] Mail sent", {
+        to: mail.to,
+        subject: mail.subject,
+      });
+    } catch (error: any) {
+      logger.error("[MailService] Failed to send mail", {
+        error: error.message,
+        to: mail.to,
+        subject: mail.subject,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,247 @@
+import { Prisma, PrismaClient, UserRole } from "@prisma/client";
+import logger from "../utils/logger";
+import {
+  AuthorizationError,
+  CustomError,
+  ErrorCode,
+  ValidationError,
+  handleError,
+} from "../utils/errorHandler";
+import { User } from "../types/context";
+import {
+  StatsGranularity,
+  StatsPoint,
+  StatsTotals,
+} from "../types/stats.type";
+import { canViewBoilerplate } from "../policies/visibility.policy";
+import { hasRole } from "../policies/role.policy";
+
+const prisma = new PrismaClient();
+
+const STATS_DEFAULT_RANGE_DAYS = 30;
+const STATS_MAX_RANGE_DAYS = parseInt(
+  process.env.STATS_MAX_RANGE_DAYS || "731"
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StatsRange {
+  from?: string;
+  to?: string;
+  granularity?: StatsGranularity;
+}
+
+type Metric = keyof StatsTotals;
+type BucketRow = { bucket: Date } & Partial<Record<Metric, number>>;
+
+const emptyTotals = (): StatsTotals => ({
+  views: 0,
+  downloads: 0,
+  uniqueVisitors: 0,
+  likes: 0,
+  forks: 0,
+});
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Start of the UTC bucket holding a date, matching Postgres date_trunc:
+ * weeks start on Monday
+ */
+const bucketStart = (date: Date, granularity: StatsGranularity) => {
+  const start = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  if (granularity === StatsGranularity.WEEK) {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else if (granularity === StatsGranularity.MONTH) {
+    start.setUTCDate(1);
+  }
+  return start;
+};
+
+const nextBucket = (date: Date, granularity: StatsGranularity) => {
+  const next = new Date(date);
+  if (granularity === StatsGranularity.DAY) {
+    next.setUTCDate(next.getUTCDate() + 1);
+  } else if (granularity === StatsGranularity.WEEK) {
+    next.setUTCDate(next.getUTCDate() + 7);
+  } else {
+    next.setUTCMonth(next.getUTCMonth() + 1);
+  }
+  return next;
+};
+
+export class StatsService {
+  /**
+   * Time series for one boilerplate
+   * @param boilerplateId Boilerplate ID
+   * @param range Dates (inclusive, default last 30 days) and bucket size
+   * @param user Acting user, must be the author or an admin
+   * @throws CustomError NOT_FOUND when missing or hidden from the user
+   */
+  async getBoilerplateStats(
+    boilerplateId: string,
+    range: StatsRange,
+    user: User
+  ) {
+    const boilerplate = await prisma.boilerplate.findUnique({
+      where: { id: boilerplateId },
+      select: { id: true, authorId: true, visibility: true },
+    });
+    if (!boilerplate || !canViewBoilerplate(boilerplate, user)) {
+      throw new CustomError("Boilerplate not found", ErrorCode.NOT_FOUND);
+    }
+    if (boilerplate.authorId !== user.sub && !hasRole(user, UserRole.ADMIN)) {
+      throw new AuthorizationError(
+        "Only the author or an admin can view boilerplate stats"
+      );
+    }
+
+    const stats = await this.collect([boilerplateId], range);
+    return { boilerplateId, ...stats };
+  }
+
+  /**
+   * Time series summed over every boilerplate of an author
+   * @param authorId Author, defaults to the acting user
+   * @param range Dates (inclusive, default last 30 days) and bucket size
+   * @param user Acting user, must be the author or an admin
+   */
+  async getAuthorStats(
+    authorId: string | undefined,
+    range: StatsRange,
+    user: User
+  ) {
+    const id = authorId ?? user.sub;
+    if (id !== user.sub && !hasRole(user, UserRole.ADMIN)) {
+      throw new AuthorizationError(
+        "Only the author or an admin can view author stats"
+      );
+    }
+
+    const author = await prisma.user.findUnique({
+      where: { id },
+      select: { boilerplates: { select: { id: true } } },
+    });
+    if (!author) {
+      throw new CustomError("User not found", ErrorCode.NOT_FOUND);
+    }
+
+    const ids = author.boilerplates.map((boilerplate) => boilerplate.id);
+    const stats = await this.collect(ids, range);
+    return { authorId: id, boilerplateCount: ids.length, ...stats };
+  }
+
+  private resolveRange(range: StatsRange) {
+    const granularity = range.granularity ?? StatsGranularity.DAY;
+    const to = range.to ? new Date(range.to) : new Date();
+    const from = range.from
+      ? new Date(range.from)
+      : new Date(to.getTime() - (STATS_DEFAULT_RANGE_DAYS - 1) * DAY_MS);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      throw new ValidationError("from and to must be ISO 8601 dates", {
+        from: range.from,
+        to: range.to,
+      });
+    }
+
+    // Whole UTC days, `end` is exclusive
+    const start = bucketStart(from, StatsGranularity.DAY);
+    const end = nextBucket(bucketStart(to, StatsGranularity.DAY), StatsGranularity.DAY);
+    if (start >= end) {
+      throw new ValidationError("from must not be after to");
+    }
+    if (end.getTime() - start.getTime() > STATS_MAX_RANGE_DAYS * DAY_MS) {
+      throw new ValidationError(
+        `Stats range must be at most ${STATS_MAX_RANGE_DAYS} days`
+      );
+    }
+
+    return { granularity, start, end };
+  }
+
+  private async collect(boilerplateIds: string[], range: StatsRange) {
+    const { granularity, start, end } = this.resolveRange(range);
+
+    // Every bucket is listed, empty ones included, so charts need no gap filling
+    const buckets = new Map<string, StatsPoint>();
+    for (
+      let bucket = bucketStart(start, granularity);
+      bucket < end;
+      bucket = nextBucket(bucket, granularity)
+    ) {
+      buckets.set(formatDate(bucket), {
+        date: formatDate(bucket),
+        ...emptyTotals(),
+      });
+    }
+
+    if (boilerplateIds.length > 0) {
+      const unit = granularity.toLowerCase();
+      const ids = Prisma.join(boilerplateIds);
+
+      try {
+        const results = await prisma.$transaction([
+          // Daily unique visitors add up per bucket, so one visitor on two
+          // days of a week counts twice
+          prisma.$queryRaw<BucketRow[]>`
+            SELECT date_trunc(${unit}::text, "date"::timestamp) AS bucket,
+              SUM("views")::int AS views,
+              SUM("downloads")::int AS downloads,
+              SUM("uniqueVisitors")::int AS "uniqueVisitors"
+            FROM "BoilerplateAnalytics"
+            WHERE "boilerplateId" IN (${ids})
+              AND "date" >= ${start}::date AND "date" < ${end}::date
+            GROUP BY 1`,
+          prisma.$queryRaw<BucketRow[]>`
+            SELECT date_trunc(${unit}::text, "createdAt") AS bucket,
+              COUNT(*)::int AS likes
+            FROM "UserLikes"
+            WHERE "boilerplateId" IN (${ids})
+              AND "createdAt" >= ${start} AND "createdAt" < ${end}
+            GROUP BY 1`,
+          prisma.$queryRaw<BucketRow[]>`
+            SELECT date_trunc(${unit}::text, "timestamp") AS bucket,
+              COUNT(*)::int AS forks
+            FROM "UserActivity"
+            WHERE "boilerplateId" IN (${ids})
+              AND "activityType" = 'FORK'
+              AND "timestamp" >= ${start} AND "timestamp" < ${end}
+            GROUP BY 1`,
+        ]);
+
+        for (const row of results.flat()) {
+          const point = buckets.get(formatDate(new Date(row.bucket)));
+          if (!point) continue;
+          for (const metric of Object.keys(emptyTotals()) as Metric[]) {
+            point[metric] += row[metric] ?? 0;
+          }
+        }
+      } catch (error: any) {
+        logger.error("[StatsService] Failed to collect stats", {
+          error: error.message,
+          boilerplateIds,
+        });
+        throw handleError(error);
+      }
+    }
+
+    const series = Array.from(buckets.values());
+    const totals = series.reduce((sum, point) => {
+      for (const metric of Object.keys(sum) as Metric[]) {
+        sum[metric] += point[metric];
+      }
+      return sum;
+    }, emptyTotals());
+
+    return {
+      granularity,
+      from: formatDate(start),
+      to: formatDate(new Date(end.getTime() - DAY_MS)),
+      totals,
+      series,
+    };
+  }
+}
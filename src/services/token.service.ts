@@ -0,0 +1,191 @@
+import { PrismaClient } from "@prisma/client";
+import { createHash, randomBytes } from "crypto";
+import logger from "../utils/logger";
+import {
+  AuthorizationError,
+  CustomError,
+  ErrorCode,
+  ValidationError,
+} from "../utils/errorHandler";
+import { User } from "../types/context";
+import { isTokenScope, TokenScope } from "../policies/scope.policy";
+
+const prisma = new PrismaClient();
+
+// Recognisable prefix so leaked tokens can be found by secret scanners
+const TOKEN_PREFIX = "bph_";
+const MAX_TOKENS_PER_USER = parseInt(
+  process.env.MAX_PERSONAL_ACCESS_TOKENS || "20"
+);
+// Minimum delay between two `lastUsedAt` writes for the same token
+const TOKEN_TOUCH_INTERVAL = parseInt(
+  process.env.PERSONAL_ACCESS_TOKEN_TOUCH_INTERVAL || "60"
+);
+
+const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+// Never expose the hash
+const tokenSelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+};
+
+export const isPersonalAccessToken = (token: string) =>
+  token.startsWith(TOKEN_PREFIX);
+
+export class TokenService {
+  /**
+   * Creates a personal access token. The plain token is only returned here.
+   * @param user Owner, only admins may grant the admin scope
+   * @param data Token name, scopes and optional expiry
+   * @returns The plain token and its stored metadata
+   */
+  async createPersonalAccessToken(
+    user: User,
+    data: { name: string; scopes: string[]; expiresAt?: string }
+  ) {
+    const name = data.name.trim();
+    if (!name) {
+      throw new ValidationError("Token name is required");
+    }
+
+    const invalidScopes = data.scopes.filter((scope) => !isTokenScope(scope));
+    if (data.scopes.length === 0 || invalidScopes.length > 0) {
+      throw new ValidationError("Invalid token scopes", {
+        invalidScopes,
+        allowed: ["boilerplate:read", "boilerplate:write", "admin"],
+      });
+    }
+    const scopes = Array.from(new Set(data.scopes)) as TokenScope[];
+    if (scopes.includes("admin") && user.role !== "ADMIN") {
+      throw new AuthorizationError("Only admins can create admin tokens");
+    }
+
+    let expiresAt: Date | undefined;
+    if (data.expiresAt) {
+      expiresAt = new Date(data.expiresAt);
+      if (isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+        throw new ValidationError("expiresAt must be a future date", {
+          expiresAt: data.expiresAt,
+        });
+      }
+    }
+
+    const count = await prisma.personalAccessToken.count({
+      where: { userId: user.sub },
+    });
+    if (count >= MAX_TOKENS_PER_USER) {
+      throw new CustomError(
+        `A user can have at most ${MAX_TOKENS_PER_USER} tokens`,
+        ErrorCode.BAD_REQUEST
+      );
+    }
+
+    const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+    const personalAccessToken = await prisma.personalAccessToken.create({
+      data: {
+        userId: user.sub,
+        name,
+        scopes,
+        expiresAt,
+        tokenHash: hashToken(token),
+        prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+      },
+      select: tokenSelect,
+    });
+
+    logger.info("[TokenService] Personal access token created", {
+      userId: user.sub,
+      tokenId: personalAccessToken.id,
+      scopes,
+    });
+
+    return { token, personalAccessToken };
+  }
+
+  /**
+   * Lists a user's personal access tokens, without the tokens themselves
+   * @param userId Owner
+   */
+  async listPersonalAccessTokens(userId: string) {
+    return prisma.personalAccessToken.findMany({
+      where: { userId },
+      select: tokenSelect,
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  /**
+   * Deletes a personal access token, it stops working immediately
+   * @param userId Owner
+   * @param id Token ID
+   */
+  async revokePersonalAccessToken(userId: string, id: string) {
+    const { count } = await prisma.personalAccessToken.deleteMany({
+      where: { id, userId },
+    });
+    if (count === 0) {
+      throw new CustomError("Token not found", ErrorCode.NOT_FOUND);
+    }
+
+    logger.info("[TokenService] Personal access token revoked", {
+      userId,
+      tokenId: id,
+    });
+
+    return { success: true, message: "Token revoked" };
+  }
+
+  /**
+   * Resolves the user behind a personal access token. Elevated roles only
+   * apply to tokens carrying the admin scope.
+   * @param token Plain token from the Authorization header
+   * @returns Context user with the token's scopes, or null if invalid
+   */
+  async authenticate(token: string): Promise<User | null> {
+    const personalAccessToken = await prisma.personalAccessToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { user: true },
+    });
+
+    if (!personalAccessToken) return null;
+    if (
+      personalAccessToken.expiresAt &&
+      personalAccessToken.expiresAt <= new Date()
+    ) {
+      logger.warn("[TokenService] Expired personal access token used", {
+        tokenId: personalAccessToken.id,
+      });
+      return null;
+    }
+
+    const lastUsedAt = personalAccessToken.lastUsedAt?.getTime() ?? 0;
+    if (Date.now() - lastUsedAt > TOKEN_TOUCH_INTERVAL * 1000) {
+      prisma.personalAccessToken
+        .update({
+          where: { id: personalAccessToken.id },
+          data: { lastUsedAt: new Date() },
+        })
+        .catch((error) =>
+          logger.warn("[TokenService] Failed to update lastUsedAt", {
+            error: error.message,
+          })
+        );
+    }
+
+    const { user, scopes } = personalAccessToken;
+    return {
+      sub: user.id,
+      email: user.email,
+      name: user.name || undefined,
+      role: scopes.includes("admin") ? user.role : "USER",
+      scopes,
+    };
+  }
+}
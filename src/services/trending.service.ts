@@ -0,0 +1,251 @@
+import { PrismaClient, Visibility } from "@prisma/client";
+import { redis } from "../config/redis";
+import logger from "../utils/logger";
+import { acquireLock, releaseLock } from "../utils/redisLock";
+import { ValidationError, handleError } from "../utils/errorHandler";
+import { TrendingWindow } from "../types/trending.type";
+
+const prisma = new PrismaClient();
+
+// How often the rankings are recomputed
+const TRENDING_REFRESH_INTERVAL = parseInt(
+  process.env.TRENDING_REFRESH_INTERVAL || "600"
+);
+// Boilerplates kept per ranking, filters are applied within them
+const TRENDING_MAX_ENTRIES = parseInt(
+  process.env.TRENDING_MAX_ENTRIES || "1000"
+);
+const TRENDING_MAX_RESULTS = 100;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Activity older than the window is ignored, within it a point loses half
+// its weight every half-life
+const WINDOWS: Record<TrendingWindow, { hours: number; halfLifeHours: number }> = {
+  [TrendingWindow.DAY]: { hours: 24, halfLifeHours: 6 },
+  [TrendingWindow.WEEK]: { hours: 7 * 24, halfLifeHours: 48 },
+  [TrendingWindow.MONTH]: { hours: 30 * 24, halfLifeHours: 7 * 24 },
+};
+
+const WEIGHTS = {
+  views: 1,
+  downloads: 3,
+  likes: 5,
+};
+
+const rankingKey = (window: TrendingWindow) => `trending:${window}`;
+const refreshLockKey = (window: TrendingWindow) => `trending:${window}:lock`;
+// Set by every refresh, tells an empty ranking apart from a missing one
+const freshKey = (window: TrendingWindow) => `trending:${window}:fresh`;
+
+export interface TrendingFilter {
+  categoryId?: string;
+  language?: string;
+}
+
+export class TrendingService {
+  /**
+   * Public boilerplates ranked by recent activity, from the cached ranking
+   * @param window Activity period the score covers
+   * @param filter Category and language to keep
+   * @param first Number of results
+   * @returns Boilerplates with their score, highest first
+   */
+  async findTrending(
+    window: TrendingWindow,
+    filter: TrendingFilter,
+    first: number
+  ) {
+    if (first < 1 || first > TRENDING_MAX_RESULTS) {
+      throw new ValidationError(
+        `first must be between 1 and ${TRENDING_MAX_RESULTS}`
+      );
+    }
+
+    try {
+      const scores = await this.rankedScores(window);
+      if (scores.size === 0) return [];
+
+      // Visibility is checked again, it may have changed since the refresh
+      const boilerplates = await prisma.boilerplate.findMany({
+        where: {
+          id: { in: Array.from(scores.keys()) },
+          visibility: Visibility.PUBLIC,
+          ...(filter.categoryId && { categoryId: filter.categoryId }),
+          ...(filter.language && { language: filter.language }),
+        },
+        include: { author: true, likes: true },
+      });
+
+      return boilerplates
+        .map((boilerplate) => ({
+          boilerplate,
+          score: scores.get(boilerplate.id)!,
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, first)
+        .map((entry, index) => ({ ...entry, rank: index + 1 }));
+    } catch (error: any) {
+      logger.error("[TrendingService] Failed to fetch trending boilerplates", {
+        error: error.message,
+        window,
+      });
+      throw handleError(error);
+    }
+  }
+
+  /**
+   * Scores of the cached ranking, computed directly from the database while
+   * Redis is unavailable
+   * @param window Activity period the score covers
+   */
+  private async rankedScores(window: TrendingWindow) {
+    try {
+      // Not computed yet, or the scheduler stopped and the ranking expired.
+      // A window without any activity stays fresh and is not recomputed.
+      if (!(await redis.exists(freshKey(window)))) {
+        await this.refresh(window);
+      }
+      const ranking = await redis.zrevrange(
+        rankingKey(window),
+        0,
+        -1,
+        "WITHSCORES"
+      );
+
+      const scores = new Map<string, number>();
+      for (let i = 0; i < ranking.length; i += 2) {
+        scores.set(ranking[i], parseFloat(ranking[i + 1]));
+      }
+      return scores;
+    } catch (error: any) {
+      logger.warn("[TrendingService] Ranking cache unavailable", {
+        error: error.message,
+        window,
+      });
+      return new Map(await this.topScores(window));
+    }
+  }
+
+  /**
+   * Recomputes a ranking from recent analytics and likes and replaces the
+   * cached sorted set in one step. Skipped while another instance refreshes.
+   * @param window Activity period the score covers
+   */
+  async refresh(window: TrendingWindow) {
+    let token: string | null = null;
+
+    try {
+      token = await acquireLock(
+        refreshLockKey(window),
+        TRENDING_REFRESH_INTERVAL
+      );
+      if (!token) return;
+
+      const top = await this.topScores(window);
+
+      const key = rankingKey(window);
+      const next = `${key}:next`;
+      // Outlives a few missed refreshes, then reads recompute it
+      const ttl = TRENDING_REFRESH_INTERVAL * 3;
+      const transaction = redis.multi().del(next);
+      if (top.length > 0) {
+        transaction
+          .zadd(next, ...top.flatMap(([id, score]) => [score, id]))
+          .rename(next, key)
+          .expire(key, ttl);
+      } else {
+        transaction.del(key);
+      }
+      await transaction.set(freshKey(window), "1", "EX", ttl).exec();
+
+      logger.info("[TrendingService] Ranking refreshed", {
+        window,
+        entries: top.length,
+      });
+    } catch (error: any) {
+      logger.error("[TrendingService] Failed to refresh ranking", {
+        error: error.message,
+        window,
+      });
+    } finally {
+      if (token) await releaseLock(refreshLockKey(window), token);
+    }
+  }
+
+  // Highest scores first, as many as a ranking keeps
+  private async topScores(window: TrendingWindow) {
+    const scores = await this.computeScores(window);
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TRENDING_MAX_ENTRIES);
+  }
+
+  private async computeScores(window: TrendingWindow) {
+    const { hours, halfLifeHours } = WINDOWS[window];
+    const now = Date.now();
+    const since = new Date(now - hours * HOUR_MS);
+    const decay = (at: Date) =>
+      Math.pow(0.5, Math.max(0, now - at.getTime()) / HOUR_MS / halfLifeHours);
+
+    const [analytics, likes] = await Promise.all([
+      prisma.boilerplateAnalytics.findMany({
+        // Daily rows, the one of `since` is partially inside the window
+        where: {
+          date: { gte: new Date(since.toISOString().slice(0, 10)) },
+          boilerplate: { visibility: Visibility.PUBLIC },
+        },
+        select: { boilerplateId: true, date: true, views: true, downloads: true },
+      }),
+      prisma.userLikes.findMany({
+        where: {
+          createdAt: { gte: since },
+          boilerplate: { visibility: Visibility.PUBLIC },
+        },
+        select: { boilerplateId: true, createdAt: true },
+      }),
+    ]);
+
+    const scores = new Map<string, number>();
+    const add = (boilerplateId: string, points: number) =>
+      scores.set(boilerplateId, (scores.get(boilerplateId) || 0) + points);
+
+    for (const row of analytics) {
+      // A day's events are dated at its midpoint
+      const at = new Date(row.date.getTime() + 12 * HOUR_MS);
+      add(
+        row.boilerplateId,
+        (row.views * WEIGHTS.views + row.downloads * WEIGHTS.downloads) *
+          decay(at)
+      );
+    }
+    for (const like of likes) {
+      add(like.boilerplateId, WEIGHTS.likes * decay(like.createdAt));
+    }
+
+    return scores;
+  }
+}
+
+/**
+ * Recomputes every ranking now and then on an interval
+ * @returns Timer to clear on shutdown
+ */
+export const startTrendingRefresh = (
+  trendingService: TrendingService = new TrendingService()
+) => {
+  const refreshAll = () => {
+    Promise.all(
+      Object.values(TrendingWindow).map((window) =>
+        trendingService.refresh(window)
+      )
+    ).catch((error) => {
+      logger.error("[TrendingService] Scheduled refresh failed", {
+        error: error.message,
+      });
+    });
+  };
+
+  refreshAll();
+  return setInterval(refreshAll, TRENDING_REFRESH_INTERVAL * 1000);
+};
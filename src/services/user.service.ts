@@ -1,7 +1,16 @@
 import { PrismaClient } from "@prisma/client";
 import { GraphQLError } from "graphql";
+import { User } from "../types/context";
+import { listableBoilerplatesWhere } from "../policies/visibility.policy";
+import { assertPasswordPolicy, hashPassword } from "../utils/password";
+import { ValidationError } from "../utils/errorHandler";
+import logger from "../utils/logger";
+import { VerificationService } from "./verification.service";
 
 const prisma = new PrismaClient();
+const verificationService = new VerificationService();
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
 export class UserService {
   async findUserById(id: string) {
@@ -10,6 +19,36 @@ export class UserService {
     });
   }
 
+  /**
+   * Registers an email/password account
+   * @param input Email, plain text password and optional display name
+   * @returns Created user (including the password hash, strip before exposing)
+   */
+  async signup(input: { email: string; password: string; name?: string }) {
+    const email = input.email.trim().toLowerCase();
+
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new ValidationError("Invalid email address", { email });
+    }
+    assertPasswordPolicy(input.password);
+
+    const existingUser = await this.findUserByEmail(email);
+    if (existingUser) {
+      throw new GraphQLError("Email already exists", {
+        extensions: { code: "BAD_USER_INPUT" },
+      });
+    }
+
+    return prisma.user.create({
+      data: {
+        email,
+        name: input.name,
+        password: await hashPassword(input.password),
+        authProvider: "EMAIL",
+      },
+    });
+  }
+
   async findUsers({ first, after }: { first: number; after?: string }) {
     return prisma.user.findMany({
       take: first,
@@ -18,8 +57,21 @@ export class UserService {
     });
   }
 
-  async updateProfile(id: string, data: { email?: string; name?: string }) {
-    if (data.email) {
+  async updateProfile(id: string, input: { email?: string; name?: string }) {
+    const data = {
+      ...input,
+      ...(input.email !== undefined && {
+        email: input.email.trim().toLowerCase(),
+      }),
+    };
+
+    if (data.email !== undefined) {
+      if (!EMAIL_PATTERN.test(data.email)) {
+        throw new ValidationError("Invalid email address", {
+          email: data.email,
+        });
+      }
+
       const existingUser = await this.findUserByEmail(data.email);
       if (existingUser && existingUser.id !== id) {
         throw new GraphQLError("Email already exists", {
@@ -28,19 +80,37 @@ export class UserService {
       }
     }
 
-    return prisma.user.update({
+    const currentUser = await this.findUserById(id);
+    const emailChanged = !!data.email && data.email !== currentUser?.email;
+
+    const user = await prisma.user.update({
       where: { id },
-      data,
+      // A new address has to be verified again
+      data: { ...data, ...(emailChanged && { isVerified: false }) },
     });
+
+    if (emailChanged) {
+      // The change is saved either way, a new link can be requested later
+      try {
+        await verificationService.sendVerificationEmail(user);
+      } catch (error: any) {
+        logger.error("[UserService] Failed to send verification email", {
+          userId: id,
+          error: error.message,
+        });
+      }
+    }
+
+    return user;
   }
 
-  async getUserBoilerplates(userId: string) {
+  async getUserBoilerplates(userId: string, viewer?: User) {
     return prisma.boilerplate.findMany({
-      where: { authorId: userId },
+      where: { authorId: userId, AND: [listableBoilerplatesWhere(viewer)] },
     });
   }
 
-  async getLikedBoilerplates(userId: string) {
+  async getLikedBoilerplates(userId: string, viewer?: User) {
     return prisma.boilerplate.findMany({
       where: {
         likes: {
@@ -48,6 +118,7 @@ export class UserService {
             userId: userId,
           },
         },
+        AND: [listableBoilerplatesWhere(viewer)],
       },
     });
   }
@@ -0,0 +1,199 @@
+import { PrismaClient, User } from "@prisma/client";
+import * as jwt from "jsonwebtoken";
+import { redis } from "../config/redis";
+import logger from "../utils/logger";
+import {
+  AuthorizationError,
+  CustomError,
+  ErrorCode,
+} from "../utils/errorHandler";
+import { MailService } from "./mail.service";
+
+const prisma = new PrismaClient();
+const mailService = new MailService();
+
+const VERIFICATION_SECRET =
+  process.env.VERIFICATION_SECRET || "your-verification-secret";
+// Verification token lifetime in seconds
+const VERIFICATION_TOKEN_EXPIRY = parseInt(
+  process.env.VERIFICATION_TOKEN_EXPIRY || String(24 * 60 * 60)
+);
+const VERIFICATION_URL =
+  process.env.VERIFICATION_URL || "http://localhost:8080/verify-email";
+// Minimum delay between two verification emails for the same user
+const RESEND_COOLDOWN = parseInt(
+  process.env.VERIFICATION_RESEND_COOLDOWN || "60"
+);
+// Maximum verification emails per user per hour
+const RESEND_HOURLY_LIMIT = parseInt(
+  process.env.VERIFICATION_RESEND_HOURLY_LIMIT || "5"
+);
+const REQUIRE_VERIFIED_TO_PUBLISH =
+  process.env.REQUIRE_VERIFIED_TO_PUBLISH === "true";
+
+const TOKEN_PURPOSE = "email_verification";
+
+interface VerificationTokenPayload {
+  sub: string;
+  email: string;
+  purpose: string;
+  jti: string;
+}
+
+export class VerificationService {
+  /**
+   * Issues a verification token and emails the verification link. Only the
+   * most recently issued token is valid.
+   * @param user User to verify
+   */
+  async sendVerificationEmail(user: Pick<User, "id" | "email" | "name">) {
+    const tokenId = crypto.randomUUID();
+    const token = jwt.sign(
+      { sub: user.id, email: user.email, purpose: TOKEN_PURPOSE, jti: tokenId },
+      VERIFICATION_SECRET,
+      { expiresIn: VERIFICATION_TOKEN_EXPIRY }
+    );
+
+    await redis.set(
+      `email_verification:${user.id}`,
+      tokenId,
+      "EX",
+      VERIFICATION_TOKEN_EXPIRY
+    );
+
+    const link = `${VERIFICATION_URL}?token=${encodeURIComponent(token)}`;
+    await mailService.send({
+      to: user.email,
+      subject: "Verify your email address",
+      text: [
+        `Hi ${user.name || "there"},`,
+        "",
+        "Confirm your email address by opening the link below:",
+        link,
+        "",
+        `The link expires in ${Math.round(VERIFICATION_TOKEN_EXPIRY / 3600)} hours.`,
+      ].join("\n"),
+    });
+
+    logger.info(`Verification email sent to user ${user.id}`);
+  }
+
+  /**
+   * Marks the user's email as verified
+   * @param token Token from the verification link
+   * @returns Updated user
+   */
+  async verifyEmail(token: string) {
+    let payload: VerificationTokenPayload;
+    try {
+      payload = jwt.verify(
+        token,
+        VERIFICATION_SECRET
+      ) as VerificationTokenPayload;
+    } catch (error: any) {
+      logger.warn("Email verification failed: invalid token", {
+        error: error.message,
+      });
+      throw new CustomError(
+        "Invalid or expired verification token",
+        ErrorCode.BAD_REQUEST
+      );
+    }
+
+    const storedTokenId = await redis.get(`email_verification:${payload.sub}`);
+    const user = await prisma.user.findUnique({ where: { id: payload.sub } });
+
+    // Superseded tokens and tokens for a since-changed email are rejected
+    if (
+      payload.purpose !== TOKEN_PURPOSE ||
+      storedTokenId !== payload.jti ||
+      !user ||
+      user.email !== payload.email
+    ) {
+      logger.warn(`Email verification failed for user ${payload.sub}`);
+      throw new CustomError(
+        "Invalid or expired verification token",
+        ErrorCode.BAD_REQUEST
+      );
+    }
+
+    await redis.del(`email_verification:${user.id}`);
+    const verifiedUser = await prisma.user.update({
+      where: { id: user.id },
+      data: { isVerified: true },
+    });
+
+    logger.info(`Email verified for user ${user.id}`);
+
+    return verifiedUser;
+  }
+
+  /**
+   * Sends a fresh verification email, throttled per user
+   * @param userId User ID
+   */
+  async resendVerificationEmail(userId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new CustomError("User not found", ErrorCode.NOT_FOUND);
+    }
+    if (user.isVerified) {
+      throw new CustomError("Email is already verified", ErrorCode.BAD_REQUEST);
+    }
+
+    const cooldownSet = await redis.set(
+      `email_verification_cooldown:${userId}`,
+      "1",
+      "EX",
+      RESEND_COOLDOWN,
+      "NX"
+    );
+    if (!cooldownSet) {
+      throw new CustomError(
+        `Please wait ${RESEND_COOLDOWN} seconds before requesting another email`,
+        ErrorCode.TOO_MANY_REQUESTS
+      );
+    }
+
+    const hourlyKey = `email_verification_sent:${userId}`;
+    const sentThisHour = await redis.incr(hourlyKey);
+    if (sentThisHour === 1) {
+      await redis.expire(hourlyKey, 60 * 60);
+    }
+    if (sentThisHour > RESEND_HOURLY_LIMIT) {
+      logger.warn(`Verification resend limit reached for user ${userId}`);
+      throw new CustomError(
+        "Too many verification emails requested, try again later",
+        ErrorCode.TOO_MANY_REQUESTS
+      );
+    }
+
+    await this.sendVerificationEmail(user);
+
+    return {
+      success: true,
+      message: "Verification email sent",
+    };
+  }
+
+  /**
+   * Blocks publishing for unverified users when REQUIRE_VERIFIED_TO_PUBLISH
+   * is enabled
+   * @param userId Publishing user
+   * @throws AuthorizationError if the user has not verified their email
+   */
+  async assertCanPublish(userId: string) {
+    if (!REQUIRE_VERIFIED_TO_PUBLISH) return;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { isVerified: true },
+    });
+    if (!user?.isVerified) {
+      logger.warn(`Unverified user ${userId} attempted to publish`);
+      throw new AuthorizationError(
+        "Verify your email address before publishing boilerplates"
+      );
+    }
+  }
+}
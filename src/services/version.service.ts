@@ -0,0 +1,402 @@
+import { PrismaClient } from "@prisma/client";
+import { FileUpload } from "graphql-upload-minimal";
+import logger from "../utils/logger";
+import {
+  CustomError,
+  ErrorCode,
+  ValidationError,
+  handleError,
+} from "../utils/errorHandler";
+import {
+  collectFiles,
+  InlineFile,
+  isTextContentType,
+} from "../utils/archive";
+import { createTextDiff } from "../utils/diff";
+import { compareSemver, isValidSemver } from "../utils/semver";
+import { User } from "../types/context";
+import { assertCanChangeBoilerplate } from "../policies/ownership.policy";
+import {
+  boilerplateEvent,
+  publish,
+  TOPICS,
+  versionEvent,
+} from "../config/pubsub";
+
+const prisma = new PrismaClient();
+
+// Lets `isCurrent` be resolved without another query
+const versionInclude = {
+  boilerplate: { select: { currentVersion: true } },
+};
+
+export interface PublishVersionData {
+  versionNumber: string;
+  changelog?: string;
+  releaseNotes?: string;
+  commitHash?: string;
+  setAsCurrent?: boolean;
+  files?: InlineFile[];
+  zipFile?: Promise<FileUpload>;
+}
+
+export type FileChangeStatus = "ADDED" | "REMOVED" | "MODIFIED";
+
+export interface FileChange {
+  path: string;
+  status: FileChangeStatus;
+  binary: boolean;
+  diff?: string | null;
+  additions?: number | null;
+  deletions?: number | null;
+}
+
+export class VersionService {
+  /**
+   * Loads a boilerplate for a version change, checking the user may manage it
+   * @param boilerplateId Boilerplate ID
+   * @param user Acting user
+   * @param action Description used in the authorization error
+   */
+  private async findBoilerplateForChange(
+    boilerplateId: string,
+    user: User,
+    action: string
+  ) {
+    const boilerplate = await prisma.boilerplate.findUnique({
+      where: { id: boilerplateId },
+    });
+    return assertCanChangeBoilerplate(boilerplate, user, action);
+  }
+
+  /**
+   * Lists every version of a boilerplate, newest first. Versions that are
+   * not valid semver come last.
+   * @param boilerplateId Boilerplate ID
+   */
+  async listVersions(boilerplateId: string) {
+    try {
+      const versions = await prisma.boilerplateVersion.findMany({
+        where: { boilerplateId },
+        include: versionInclude,
+      });
+      return versions.sort((a, b) =>
+        compareSemver(b.versionNumber, a.versionNumber)
+      );
+    } catch (error: any) {
+      logger.error("[VersionService] Failed to list versions", {
+        error: error.message,
+        boilerplateId,
+      });
+      throw new CustomError("Failed to fetch versions");
+    }
+  }
+
+  /**
+   * Finds a single version of a boilerplate
+   * @param boilerplateId Boilerplate ID
+   * @param versionNumber Semantic version number
+   */
+  async findVersion(boilerplateId: string, versionNumber: string) {
+    try {
+      return await prisma.boilerplateVersion.findUnique({
+        where: {
+          boilerplateId_versionNumber: { boilerplateId, versionNumber },
+        },
+        include: versionInclude,
+      });
+    } catch (error: any) {
+      logger.error("[VersionService] Failed to fetch version", {
+        error: error.message,
+        boilerplateId,
+        versionNumber,
+      });
+      throw new CustomError("Failed to fetch version");
+    }
+  }
+
+  /**
+   * Returns the file snapshot of a version. Boilerplates created before
+   * versioning only have unversioned files, which stand in for any version
+   * without a snapshot of its own.
+   * @param boilerplateId Boilerplate ID
+   * @param versionNumber Semantic version number
+   */
+  async findVersionFiles(boilerplateId: string, versionNumber: string) {
+    const version = await this.findVersion(boilerplateId, versionNumber);
+
+    if (version) {
+      const files = await prisma.file.findMany({
+        where: { versionId: version.id },
+        orderBy: { path: "asc" },
+      });
+      if (files.length > 0) return files;
+    }
+
+    return prisma.file.findMany({
+      where: { boilerplateId, versionId: null },
+      orderBy: { path: "asc" },
+    });
+  }
+
+  /**
+   * Publishes a new version with its own file snapshot. When no files or
+   * archive are supplied the latest version's files are carried forward.
+   * @param boilerplateId Boilerplate ID
+   * @param user Publishing user
+   * @param data Version details and files
+   */
+  async publishVersion(
+    boilerplateId: string,
+    user: User,
+    data: PublishVersionData
+  ) {
+    if (!isValidSemver(data.versionNumber)) {
+      throw new ValidationError("Version number must be valid semver", {
+        versionNumber: data.versionNumber,
+      });
+    }
+
+    const boilerplate = await this.findBoilerplateForChange(
+      boilerplateId,
+      user,
+      "publish versions of this boilerplate"
+    );
+
+    this.assertNewerVersion(data.versionNumber, boilerplate.latestVersionNumber);
+
+    let files = await collectFiles(data.files, data.zipFile);
+    if (files.length === 0) {
+      files = (
+        await this.findVersionFiles(
+          boilerplateId,
+          boilerplate.latestVersionNumber
+        )
+      ).map(({ name, path, content, contentType, size }) => ({
+        name,
+        path,
+        content,
+        contentType,
+        size: size ?? Buffer.byteLength(content, "utf8"),
+      }));
+    }
+
+    try {
+      const version = await prisma.$transaction(async (tx) => {
+        // Checked again against the row this transaction updates, a
+        // concurrent publish may have moved it since
+        const { latestVersionNumber } = await tx.boilerplate.findUniqueOrThrow({
+          where: { id: boilerplateId },
+          select: { latestVersionNumber: true },
+        });
+        this.assertNewerVersion(data.versionNumber, latestVersionNumber);
+
+        const { count } = await tx.boilerplate.updateMany({
+          where: { id: boilerplateId, latestVersionNumber },
+          data: {
+            latestVersionNumber: data.versionNumber,
+            ...(data.setAsCurrent !== false && {
+              currentVersion: data.versionNumber,
+            }),
+          },
+        });
+        if (count === 0) {
+          throw new CustomError(
+            "Another version was published at the same time, try again",
+            ErrorCode.CONFLICT
+          );
+        }
+
+        const version = await tx.boilerplateVersion.create({
+          data: {
+            boilerplateId,
+            versionNumber: data.versionNumber,
+            changelog: data.changelog,
+            releaseNotes: data.releaseNotes,
+            commitHash: data.commitHash,
+          },
+        });
+
+        if (files.length > 0) {
+          await tx.file.createMany({
+            data: files.map((file) => ({
+              ...file,
+              boilerplateId,
+              versionId: version.id,
+            })),
+          });
+        }
+
+        return tx.boilerplateVersion.findUniqueOrThrow({
+          where: { id: version.id },
+          include: versionInclude,
+        });
+      });
+
+      logger.info("[VersionService] Version published", {
+        boilerplateId,
+        versionNumber: version.versionNumber,
+        files: files.length,
+      });
+
+      publish(TOPICS.VERSION_PUBLISHED, {
+        versionPublished: versionEvent(version),
+        boilerplate: boilerplateEvent(boilerplate),
+      });
+      return version;
+    } catch (error: any) {
+      logger.error("[VersionService] Failed to publish version", {
+        error: error.message,
+        boilerplateId,
+        versionNumber: data.versionNumber,
+      });
+      throw handleError(error);
+    }
+  }
+
+  /**
+   * Versions only move forward
+   * @throws ValidationError when not greater than the latest version, or the
+   * stored latest version is not valid semver
+   */
+  private assertNewerVersion(versionNumber: string, latestVersionNumber: string) {
+    if (!isValidSemver(latestVersionNumber)) {
+      throw new ValidationError(
+        "Latest version of this boilerplate is not valid semver",
+        { latestVersionNumber }
+      );
+    }
+    if (compareSemver(versionNumber, latestVersionNumber) <= 0) {
+      throw new ValidationError(
+        `Version must be greater than ${latestVersionNumber}`,
+        { versionNumber, latestVersionNumber }
+      );
+    }
+  }
+
+  /**
+   * Marks an existing version as the one served by default
+   * @param boilerplateId Boilerplate ID
+   * @param user Requesting user
+   * @param versionNumber Version to make current
+   */
+  async setCurrentVersion(
+    boilerplateId: string,
+    user: User,
+    versionNumber: string
+  ) {
+    await this.findBoilerplateForChange(
+      boilerplateId,
+      user,
+      "change the current version"
+    );
+
+    const version = await this.findVersion(boilerplateId, versionNumber);
+    if (!version) {
+      throw new CustomError(
+        `Version ${versionNumber} not found`,
+        ErrorCode.NOT_FOUND
+      );
+    }
+
+    return prisma.boilerplate.update({
+      where: { id: boilerplateId },
+      data: { currentVersion: versionNumber },
+      include: {
+        author: true,
+        likes: true,
+      },
+    });
+  }
+
+  /**
+   * Compares the file snapshots of two versions
+   * @param boilerplateId Boilerplate ID
+   * @param from Base version number
+   * @param to Compared version number
+   * @param summaryOnly Skip text diffs and only report changed paths
+   * @returns Per-file changes plus added/removed/modified counts
+   */
+  async compareVersions(
+    boilerplateId: string,
+    from: string,
+    to: string,
+    summaryOnly = false
+  ) {
+    const [fromVersion, toVersion] = await Promise.all([
+      this.findVersion(boilerplateId, from),
+      this.findVersion(boilerplateId, to),
+    ]);
+    if (!fromVersion || !toVersion) {
+      throw new CustomError(
+        `Version ${!fromVersion ? from : to} not found`,
+        ErrorCode.NOT_FOUND
+      );
+    }
+
+    const [fromFiles, toFiles] = await Promise.all([
+      this.findVersionFiles(boilerplateId, from),
+      this.findVersionFiles(boilerplateId, to),
+    ]);
+    const baseFiles = new Map(fromFiles.map((file) => [file.path, file]));
+    const comparedFiles = new Map(toFiles.map((file) => [file.path, file]));
+    const paths = new Set([...baseFiles.keys(), ...comparedFiles.keys()]);
+
+    const changes: FileChange[] = [];
+    let unchanged = 0;
+
+    for (const path of Array.from(paths).sort()) {
+      const before = baseFiles.get(path);
+      const after = comparedFiles.get(path);
+      const binary =
+        !isTextContentType(before?.contentType) ||
+        !isTextContentType(after?.contentType);
+
+      if (!before || !after) {
+        changes.push({ path, status: before ? "REMOVED" : "ADDED", binary });
+        continue;
+      }
+
+      if (
+        before.content === after.content &&
+        before.contentType === after.contentType
+      ) {
+        unchanged++;
+        continue;
+      }
+
+      const change: FileChange = { path, status: "MODIFIED", binary };
+      if (!summaryOnly && !binary) {
+        const textDiff = createTextDiff(path, before.content, after.content);
+        change.diff = textDiff?.diff ?? null;
+        change.additions = textDiff?.additions ?? null;
+        change.deletions = textDiff?.deletions ?? null;
+      }
+      changes.push(change);
+    }
+
+    const countOf = (status: FileChangeStatus) =>
+      changes.filter((change) => change.status === status).length;
+
+    logger.info("[VersionService] Versions compared", {
+      boilerplateId,
+      from,
+      to,
+      changes: changes.length,
+      summaryOnly,
+    });
+
+    return {
+      boilerplateId,
+      from,
+      to,
+      summary: {
+        added: countOf("ADDED"),
+        removed: countOf("REMOVED"),
+        modified: countOf("MODIFIED"),
+        unchanged,
+      },
+      changes,
+    };
+  }
+}
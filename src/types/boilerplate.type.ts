@@ -7,6 +7,8 @@ import {
   registerEnumType,
   GraphQLISODateTime,
 } from "@nestjs/graphql";
+import { FileUpload } from "graphql-upload-minimal";
+import { Visibility } from "@prisma/client";
 
 // Enums for advanced filtering
 export enum TextMatchMode {
@@ -34,6 +36,11 @@ registerEnumType(OrderDirection, {
   description: "Sorting direction",
 });
 
+registerEnumType(Visibility, {
+  name: "Visibility",
+  description: "Who can find and read a boilerplate",
+});
+
 // FileInput type
 @InputType("FileInputType")
 export class FileInput {
@@ -83,6 +90,9 @@ export class Boilerplate {
   @Field()
   authorId!: string;
 
+  @Field(() => Visibility)
+  visibility!: Visibility;
+
   @Field(() => [FileInput], { nullable: true })
   files?: FileInput[];
 
@@ -134,6 +144,15 @@ export class BoilerplateInput {
 
   @Field(() => [String], { nullable: true })
   tags?: string[];
+
+  @Field(() => [FileInput], { nullable: true })
+  files?: FileInput[];
+
+  @Field(() => Visibility, { nullable: true })
+  visibility?: Visibility;
+
+  // Resolved by the Upload scalar, see graphql-upload-minimal
+  zipFile?: Promise<FileUpload>;
 }
 
 // Boilerplate Query Filters and Ordering
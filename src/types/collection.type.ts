@@ -0,0 +1,59 @@
+import {
+  ObjectType,
+  InputType,
+  Field,
+  ID,
+  Int,
+  GraphQLISODateTime,
+} from "@nestjs/graphql";
+
+@ObjectType("CollectionType")
+export class Collection {
+  @Field(() => ID)
+  id!: string;
+
+  @Field()
+  name!: string;
+
+  @Field({ nullable: true })
+  description?: string;
+
+  @Field()
+  isPublic!: boolean;
+
+  @Field()
+  userId!: string;
+
+  @Field(() => Int)
+  itemCount!: number;
+
+  @Field(() => GraphQLISODateTime)
+  createdAt!: Date;
+
+  @Field(() => GraphQLISODateTime)
+  updatedAt!: Date;
+}
+
+@InputType("CreateCollectionInputType")
+export class CreateCollectionInput {
+  @Field()
+  name!: string;
+
+  @Field({ nullable: true })
+  description?: string;
+
+  @Field({ nullable: true })
+  isPublic?: boolean;
+}
+
+@InputType("UpdateCollectionInputType")
+export class UpdateCollectionInput {
+  @Field({ nullable: true })
+  name?: string;
+
+  @Field({ nullable: true })
+  description?: string;
+
+  @Field({ nullable: true })
+  isPublic?: boolean;
+}
@@ -0,0 +1,40 @@
+import {
+  ObjectType,
+  Field,
+  ID,
+  Int,
+  GraphQLISODateTime,
+} from "@nestjs/graphql";
+
+@ObjectType("CommentType")
+export class Comment {
+  @Field(() => ID)
+  id!: string;
+
+  @Field({ nullable: true })
+  content?: string;
+
+  @Field(() => ID)
+  boilerplateId!: string;
+
+  @Field(() => ID, { nullable: true })
+  parentId?: string;
+
+  @Field()
+  userId!: string;
+
+  @Field(() => Boolean)
+  isDeleted!: boolean;
+
+  @Field(() => [Comment])
+  replies!: Comment[];
+
+  @Field(() => Int)
+  replyCount!: number;
+
+  @Field(() => GraphQLISODateTime)
+  createdAt!: Date;
+
+  @Field(() => GraphQLISODateTime)
+  updatedAt!: Date;
+}
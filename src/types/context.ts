@@ -3,6 +3,10 @@ export interface User {
   email: string;
   name?: string;
   role: string;
+  // Session identifier of the access token
+  jti?: string;
+  // Set for personal access tokens only, sessions are not scope limited
+  scopes?: string[];
 }
 
 import { Request, Response } from 'express';
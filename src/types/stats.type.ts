@@ -0,0 +1,82 @@
+import { ObjectType, Field, ID, Int, registerEnumType } from "@nestjs/graphql";
+
+export enum StatsGranularity {
+  DAY = "DAY",
+  WEEK = "WEEK",
+  MONTH = "MONTH",
+}
+
+registerEnumType(StatsGranularity, {
+  name: "StatsGranularity",
+  description: "Bucket size of a stats time series",
+});
+
+@ObjectType("StatsTotalsType")
+export class StatsTotals {
+  @Field(() => Int)
+  views!: number;
+
+  @Field(() => Int)
+  downloads!: number;
+
+  @Field(() => Int)
+  uniqueVisitors!: number;
+
+  @Field(() => Int)
+  likes!: number;
+
+  @Field(() => Int)
+  forks!: number;
+}
+
+@ObjectType("StatsPointType")
+export class StatsPoint extends StatsTotals {
+  // Start of the bucket, YYYY-MM-DD
+  @Field()
+  date!: string;
+}
+
+@ObjectType("BoilerplateStatsType")
+export class BoilerplateStats {
+  @Field(() => ID)
+  boilerplateId!: string;
+
+  @Field(() => StatsGranularity)
+  granularity!: StatsGranularity;
+
+  @Field()
+  from!: string;
+
+  @Field()
+  to!: string;
+
+  @Field(() => StatsTotals)
+  totals!: StatsTotals;
+
+  @Field(() => [StatsPoint])
+  series!: StatsPoint[];
+}
+
+@ObjectType("AuthorStatsType")
+export class AuthorStats {
+  @Field(() => ID)
+  authorId!: string;
+
+  @Field(() => Int)
+  boilerplateCount!: number;
+
+  @Field(() => StatsGranularity)
+  granularity!: StatsGranularity;
+
+  @Field()
+  from!: string;
+
+  @Field()
+  to!: string;
+
+  @Field(() => StatsTotals)
+  totals!: StatsTotals;
+
+  @Field(() => [StatsPoint])
+  series!: StatsPoint[];
+}
@@ -0,0 +1,35 @@
+import { ObjectType, Field, ID, GraphQLISODateTime } from "@nestjs/graphql";
+
+// Personal access token metadata, the token itself is shown only once
+@ObjectType("PersonalAccessTokenType")
+export class PersonalAccessToken {
+  @Field(() => ID)
+  id!: string;
+
+  @Field()
+  name!: string;
+
+  @Field()
+  prefix!: string;
+
+  @Field(() => [String])
+  scopes!: string[];
+
+  @Field(() => GraphQLISODateTime, { nullable: true })
+  expiresAt?: Date;
+
+  @Field(() => GraphQLISODateTime, { nullable: true })
+  lastUsedAt?: Date;
+
+  @Field(() => GraphQLISODateTime)
+  createdAt!: Date;
+}
+
+@ObjectType("CreatedPersonalAccessTokenType")
+export class CreatedPersonalAccessToken {
+  @Field()
+  token!: string;
+
+  @Field(() => PersonalAccessToken)
+  personalAccessToken!: PersonalAccessToken;
+}
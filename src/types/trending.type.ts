@@ -0,0 +1,25 @@
+import { ObjectType, Field, Int, Float, registerEnumType } from "@nestjs/graphql";
+import { Boilerplate } from "./boilerplate.type";
+
+export enum TrendingWindow {
+  DAY = "DAY",
+  WEEK = "WEEK",
+  MONTH = "MONTH",
+}
+
+registerEnumType(TrendingWindow, {
+  name: "TrendingWindow",
+  description: "Period of recent activity a trending score covers",
+});
+
+@ObjectType("TrendingBoilerplateType")
+export class TrendingBoilerplate {
+  @Field(() => Boilerplate)
+  boilerplate!: Boilerplate;
+
+  @Field(() => Float)
+  score!: number;
+
+  @Field(() => Int)
+  rank!: number;
+}
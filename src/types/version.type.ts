@@ -0,0 +1,126 @@
+import {
+  ObjectType,
+  Field,
+  ID,
+  Int,
+  InputType,
+  GraphQLISODateTime,
+  registerEnumType,
+} from "@nestjs/graphql";
+import { FileUpload } from "graphql-upload-minimal";
+import { FileInput } from "./boilerplate.type";
+
+// BoilerplateVersion GraphQL Object Type
+@ObjectType("BoilerplateVersionType")
+export class BoilerplateVersion {
+  @Field(() => ID)
+  id!: string;
+
+  @Field()
+  boilerplateId!: string;
+
+  @Field()
+  versionNumber!: string;
+
+  @Field({ nullable: true })
+  changelog?: string;
+
+  @Field({ nullable: true })
+  releaseNotes?: string;
+
+  @Field({ nullable: true })
+  commitHash?: string;
+
+  @Field(() => GraphQLISODateTime)
+  createdAt!: Date;
+}
+
+// Input for publishing a new version
+@InputType("PublishVersionInputType")
+export class PublishVersionInput {
+  @Field()
+  versionNumber!: string;
+
+  @Field({ nullable: true })
+  changelog?: string;
+
+  @Field({ nullable: true })
+  releaseNotes?: string;
+
+  @Field({ nullable: true })
+  commitHash?: string;
+
+  @Field({ nullable: true, defaultValue: true })
+  setAsCurrent?: boolean;
+
+  @Field(() => [FileInput], { nullable: true })
+  files?: FileInput[];
+
+  // Resolved by the Upload scalar, see graphql-upload-minimal
+  zipFile?: Promise<FileUpload>;
+}
+
+export enum FileChangeStatus {
+  ADDED = "ADDED",
+  REMOVED = "REMOVED",
+  MODIFIED = "MODIFIED",
+}
+
+registerEnumType(FileChangeStatus, {
+  name: "FileChangeStatus",
+  description: "How a file differs between two versions",
+});
+
+@ObjectType()
+export class FileChange {
+  @Field()
+  path!: string;
+
+  @Field(() => FileChangeStatus)
+  status!: FileChangeStatus;
+
+  @Field()
+  binary!: boolean;
+
+  @Field({ nullable: true })
+  diff?: string;
+
+  @Field(() => Int, { nullable: true })
+  additions?: number;
+
+  @Field(() => Int, { nullable: true })
+  deletions?: number;
+}
+
+@ObjectType()
+export class VersionComparisonSummary {
+  @Field(() => Int)
+  added!: number;
+
+  @Field(() => Int)
+  removed!: number;
+
+  @Field(() => Int)
+  modified!: number;
+
+  @Field(() => Int)
+  unchanged!: number;
+}
+
+@ObjectType()
+export class VersionComparison {
+  @Field(() => ID)
+  boilerplateId!: string;
+
+  @Field()
+  from!: string;
+
+  @Field()
+  to!: string;
+
+  @Field(() => VersionComparisonSummary)
+  summary!: VersionComparisonSummary;
+
+  @Field(() => [FileChange])
+  changes!: FileChange[];
+}
@@ -0,0 +1,143 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import AdmZip from "adm-zip";
+import { ErrorCode } from "./errorHandler";
+import { extractZipArchive, sanitizeEntryPath } from "./archive";
+
+const S_IFLNK = 0o120000;
+
+const zipOf = (
+  entries: Array<{ name: string; content: Buffer | string; attr?: number }>
+) => {
+  const zip = new AdmZip();
+  for (const { name, content, attr } of entries) {
+    zip.addFile(name, Buffer.from(content));
+    // addFile keeps only the permission bits, not the file type
+    if (attr !== undefined) zip.getEntry(name)!.attr = attr >>> 0;
+  }
+  return zip.toBuffer();
+};
+
+const rejects = (fn: () => unknown, message: RegExp) =>
+  assert.throws(fn, (error: any) => {
+    assert.equal(error.extensions?.code, ErrorCode.VALIDATION_ERROR);
+    assert.match(error.message, message);
+    return true;
+  });
+
+describe("sanitizeEntryPath", () => {
+  it("normalizes separators, dot segments and trailing slashes", () => {
+    assert.equal(sanitizeEntryPath("src\\index.ts"), "src/index.ts");
+    assert.equal(sanitizeEntryPath("./src/./lib/../index.ts"), "src/index.ts");
+    assert.equal(sanitizeEntryPath("src/"), "src");
+  });
+
+  it("rejects paths escaping the root", () => {
+    const entries = ["..", "../evil.sh", "src/../../evil.sh", "..\\evil.sh"];
+    for (const entry of entries) {
+      rejects(() => sanitizeEntryPath(entry), /outside its root/);
+    }
+  });
+
+  it("rejects absolute paths", () => {
+    const entries = ["/etc/passwd", "\\etc\\passwd", "C:\\evil.sh", "c:evil.sh"];
+    for (const entry of entries) {
+      rejects(() => sanitizeEntryPath(entry), /absolute path/);
+    }
+  });
+
+  it("rejects NUL bytes", () => {
+    rejects(() => sanitizeEntryPath("index.ts\0.png"), /absolute path/);
+  });
+
+  it("rejects empty and dot-only paths", () => {
+    for (const entry of ["", ".", "./", "src/.."]) {
+      rejects(() => sanitizeEntryPath(entry), /empty path/);
+    }
+  });
+});
+
+describe("extractZipArchive", () => {
+  it("extracts files relative to a shared root directory", () => {
+    const entries = extractZipArchive(
+      zipOf([
+        { name: "starter/package.json", content: "{}" },
+        { name: "starter/src/index.ts", content: "export {};" },
+        { name: "starter/logo.png", content: Buffer.from([0x89, 0, 1, 2]) },
+      ])
+    );
+
+    const byPath = new Map(entries.map((entry) => [entry.path, entry]));
+    assert.deepEqual(Array.from(byPath.keys()).sort(), [
+      "logo.png",
+      "package.json",
+      "src/index.ts",
+    ]);
+    assert.equal(byPath.get("package.json")!.contentType, "application/json");
+    assert.equal(byPath.get("src/index.ts")!.content, "export {};");
+    assert.equal(byPath.get("logo.png")!.contentType, "image/png");
+    assert.equal(
+      byPath.get("logo.png")!.content,
+      Buffer.from([0x89, 0, 1, 2]).toString("base64")
+    );
+  });
+
+  it("skips archiving tool metadata", () => {
+    const entries = extractZipArchive(
+      zipOf([
+        { name: "index.ts", content: "export {};" },
+        { name: "__MACOSX/._index.ts", content: "x" },
+        { name: ".DS_Store", content: "x" },
+      ])
+    );
+
+    assert.deepEqual(entries.map((entry) => entry.path), ["index.ts"]);
+  });
+
+  it("rejects zip-slip entries", () => {
+    const zip = new AdmZip();
+    zip.addFile("index.ts", Buffer.from("export {};"));
+    // AdmZip normalizes names passed to addFile, so set the raw one
+    zip.getEntry("index.ts")!.entryName = "../../evil.sh";
+
+    rejects(() => extractZipArchive(zip.toBuffer()), /outside its root/);
+  });
+
+  it("rejects symbolic links", () => {
+    const data = zipOf([
+      { name: "link", content: "/etc/passwd", attr: (S_IFLNK | 0o777) << 16 },
+    ]);
+
+    rejects(() => extractZipArchive(data), /symbolic link/);
+  });
+
+  it("rejects entries above the size limit", () => {
+    const data = zipOf([{ name: "big.txt", content: Buffer.alloc(6_000_000) }]);
+
+    rejects(() => extractZipArchive(data), /size limit/);
+  });
+
+  it("rejects entries with a suspicious compression ratio", () => {
+    const data = zipOf([{ name: "bomb.txt", content: Buffer.alloc(1_000_000) }]);
+
+    rejects(() => extractZipArchive(data), /compression ratio/);
+  });
+
+  it("rejects archives with too many entries", () => {
+    const data = zipOf(
+      Array.from({ length: 1001 }, (_, i) => ({
+        name: `file-${i}.txt`,
+        content: "x",
+      }))
+    );
+
+    rejects(() => extractZipArchive(data), /too many entries/);
+  });
+
+  it("rejects data that is not a zip archive", () => {
+    rejects(
+      () => extractZipArchive(Buffer.from("not a zip")),
+      /not a valid zip/
+    );
+  });
+});
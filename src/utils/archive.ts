@@ -0,0 +1,421 @@
+// src/utils/archive.ts
+import AdmZip from "adm-zip";
+import path from "path";
+import zlib from "zlib";
+import { Readable } from "stream";
+import tar from "tar-stream";
+import { FileUpload } from "graphql-upload-minimal";
+import logger from "./logger";
+import { ValidationError } from "./errorHandler";
+
+// Archive limits (bytes unless noted)
+const MAX_ARCHIVE_SIZE = parseInt(process.env.MAX_ARCHIVE_SIZE || "10000000");
+const MAX_ARCHIVE_ENTRIES = parseInt(process.env.MAX_ARCHIVE_ENTRIES || "1000");
+const MAX_ARCHIVE_FILE_SIZE = parseInt(
+  process.env.MAX_ARCHIVE_FILE_SIZE || "5000000"
+);
+const MAX_ARCHIVE_UNCOMPRESSED_SIZE = parseInt(
+  process.env.MAX_ARCHIVE_UNCOMPRESSED_SIZE || "50000000"
+);
+const MAX_COMPRESSION_RATIO = parseInt(
+  process.env.MAX_COMPRESSION_RATIO || "100"
+);
+
+// Zip compression methods we know how to inflate
+const ZIP_METHOD_STORED = 0;
+const ZIP_METHOD_DEFLATED = 8;
+
+// Unix file type bits stored in the upper half of the external attributes
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+// Entries produced by archiving tools that never belong to a template
+const IGNORED_SEGMENTS = new Set(["__MACOSX", ".DS_Store", "Thumbs.db"]);
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".js": "application/javascript",
+  ".mjs": "application/javascript",
+  ".cjs": "application/javascript",
+  ".jsx": "text/jsx",
+  ".ts": "application/typescript",
+  ".tsx": "text/tsx",
+  ".json": "application/json",
+  ".md": "text/markdown",
+  ".txt": "text/plain",
+  ".html": "text/html",
+  ".css": "text/css",
+  ".scss": "text/x-scss",
+  ".xml": "application/xml",
+  ".yml": "application/yaml",
+  ".yaml": "application/yaml",
+  ".graphql": "application/graphql",
+  ".gql": "application/graphql",
+  ".prisma": "text/plain",
+  ".sh": "application/x-sh",
+  ".py": "text/x-python",
+  ".go": "text/x-go",
+  ".rs": "text/x-rust",
+  ".java": "text/x-java",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".ico": "image/x-icon",
+  ".pdf": "application/pdf",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  ".ttf": "font/ttf",
+  ".zip": "application/zip",
+};
+
+const TEXT_CONTENT_TYPES = new Set([
+  "application/javascript",
+  "application/typescript",
+  "application/json",
+  "application/xml",
+  "application/yaml",
+  "application/graphql",
+  "application/x-sh",
+  "image/svg+xml",
+]);
+
+// Stored file shape needed to rebuild an archive
+export interface ArchiveSource {
+  path: string;
+  content: string;
+  contentType?: string | null;
+}
+
+// File supplied inline through `FileInput`
+export interface InlineFile {
+  name: string;
+  path: string;
+  content: string;
+  contentType?: string;
+  type?: string;
+  size?: number;
+}
+
+export interface ArchiveEntry {
+  name: string;
+  path: string;
+  content: string;
+  contentType: string;
+  size: number;
+}
+
+// File ready to be stored, from either an inline input or an archive
+export interface CollectedFile extends Omit<ArchiveEntry, "contentType"> {
+  contentType: string | null;
+}
+
+/**
+ * Whether files of the given content type are stored as UTF-8 text.
+ * Everything else is stored base64 encoded in `File.content`.
+ */
+export const isTextContentType = (contentType?: string | null): boolean => {
+  if (!contentType) return true;
+  return contentType.startsWith("text/") || TEXT_CONTENT_TYPES.has(contentType);
+};
+
+/**
+ * Decodes a stored `File.content` back into the original bytes
+ */
+export const fileContentToBuffer = (
+  content: string,
+  contentType?: string | null
+): Buffer => {
+  return Buffer.from(content, isTextContentType(contentType) ? "utf8" : "base64");
+};
+
+const looksBinary = (data: Buffer): boolean => {
+  const sample = data.subarray(0, 8000);
+  if (sample.includes(0)) return true;
+  return !Buffer.from(sample.toString("utf8"), "utf8").equals(sample);
+};
+
+const resolveContentType = (filePath: string, data: Buffer): string => {
+  const mapped = CONTENT_TYPES[path.posix.extname(filePath).toLowerCase()];
+  const binary = looksBinary(data);
+
+  if (!mapped) return binary ? "application/octet-stream" : "text/plain";
+  if (binary && isTextContentType(mapped)) return "application/octet-stream";
+  return mapped;
+};
+
+/**
+ * Normalizes an entry name and rejects anything that could escape the
+ * archive root once written to disk (zip-slip).
+ */
+export const sanitizeEntryPath = (entryName: string): string => {
+  const unixName = entryName.replace(/\\/g, "/");
+
+  if (
+    unixName.includes("\0") ||
+    unixName.startsWith("/") ||
+    /^[a-zA-Z]:/.test(unixName)
+  ) {
+    throw new ValidationError("Archive contains an absolute path", {
+      entry: entryName,
+    });
+  }
+
+  const normalized = path.posix.normalize(unixName).replace(/\/+$/, "");
+  if (normalized === ".." || normalized.startsWith("../")) {
+    throw new ValidationError("Archive contains a path outside its root", {
+      entry: entryName,
+    });
+  }
+  // "", "." and "a/.." name the root itself, not a file
+  if (!normalized || normalized === ".") {
+    throw new ValidationError("Archive contains an empty path", {
+      entry: entryName,
+    });
+  }
+
+  return normalized;
+};
+
+const inflateEntry = (entry: AdmZip.IZipEntry, remaining: number): Buffer => {
+  const { method, size, compressedSize, flags } = entry.header;
+  const limit = Math.min(MAX_ARCHIVE_FILE_SIZE, remaining);
+
+  if (flags & 0x1) {
+    throw new ValidationError("Encrypted archive entries are not supported", {
+      entry: entry.entryName,
+    });
+  }
+
+  if (size > limit) {
+    throw new ValidationError("Archive entry exceeds the size limit", {
+      entry: entry.entryName,
+      size,
+    });
+  }
+
+  if (compressedSize > 0 && size / compressedSize > MAX_COMPRESSION_RATIO) {
+    throw new ValidationError("Archive entry compression ratio is too high", {
+      entry: entry.entryName,
+    });
+  }
+
+  const compressed = entry.getCompressedData();
+
+  // The declared size can't be trusted, so cap the real output as well
+  try {
+    switch (method) {
+      case ZIP_METHOD_STORED:
+        if (compressed.length > limit) throw new RangeError();
+        return compressed;
+      case ZIP_METHOD_DEFLATED:
+        return zlib.inflateRawSync(compressed, { maxOutputLength: limit });
+      default:
+        throw new ValidationError("Unsupported archive compression method", {
+          entry: entry.entryName,
+          method,
+        });
+    }
+  } catch (error: any) {
+    if (error instanceof ValidationError) throw error;
+    throw new ValidationError("Archive entry exceeds the size limit", {
+      entry: entry.entryName,
+    });
+  }
+};
+
+/**
+ * Drops a single wrapping directory (e.g. `react-starter/`) shared by
+ * every entry so stored paths are relative to the project root.
+ */
+const stripCommonRoot = (entries: ArchiveEntry[]): ArchiveEntry[] => {
+  if (entries.length === 0) return entries;
+
+  const [root] = entries[0].path.split("/");
+  const shared = entries.every(
+    (entry) => entry.path.includes("/") && entry.path.split("/")[0] === root
+  );
+  if (!shared) return entries;
+
+  return entries.map((entry) => ({
+    ...entry,
+    path: entry.path.slice(root.length + 1),
+  }));
+};
+
+/**
+ * Reads an uploaded file into memory, enforcing the archive size limit
+ * @param upload Upload promise resolved by graphql-upload-minimal
+ * @returns Buffer with the uploaded bytes and the original filename
+ */
+export const readUpload = async (
+  upload: Promise<FileUpload> | FileUpload
+): Promise<{ filename: string; data: Buffer }> => {
+  const { filename, createReadStream } = await upload;
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  for await (const chunk of createReadStream()) {
+    total += chunk.length;
+    if (total > MAX_ARCHIVE_SIZE) {
+      throw new ValidationError("Uploaded archive is too large", {
+        maxSize: MAX_ARCHIVE_SIZE,
+      });
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return { filename, data: Buffer.concat(chunks) };
+};
+
+/**
+ * Unpacks a zip archive into file records ready to be stored.
+ * Rejects zip-slip paths, symlinks, encrypted entries and archives whose
+ * entry count, uncompressed size or compression ratio exceed the limits.
+ * @param data Zip archive bytes
+ * @returns Extracted files, text as UTF-8 and binaries as base64
+ */
+export const extractZipArchive = (data: Buffer): ArchiveEntry[] => {
+  let zip: AdmZip;
+  try {
+    zip = new AdmZip(data);
+  } catch (error: any) {
+    throw new ValidationError("Uploaded file is not a valid zip archive");
+  }
+
+  const zipEntries = zip.getEntries();
+  if (zipEntries.length > MAX_ARCHIVE_ENTRIES) {
+    throw new ValidationError("Archive contains too many entries", {
+      maxEntries: MAX_ARCHIVE_ENTRIES,
+    });
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let totalSize = 0;
+
+  for (const entry of zipEntries) {
+    if (entry.isDirectory) continue;
+
+    const entryPath = sanitizeEntryPath(entry.entryName);
+    if (entryPath.split("/").some((segment) => IGNORED_SEGMENTS.has(segment))) {
+      continue;
+    }
+
+    if (((entry.header.attr >>> 16) & S_IFMT) === S_IFLNK) {
+      throw new ValidationError("Archive contains a symbolic link", {
+        entry: entry.entryName,
+      });
+    }
+
+    const content = inflateEntry(
+      entry,
+      MAX_ARCHIVE_UNCOMPRESSED_SIZE - totalSize
+    );
+    totalSize += content.length;
+
+    const contentType = resolveContentType(entryPath, content);
+    entries.push({
+      name: path.posix.basename(entryPath),
+      path: entryPath,
+      content: content.toString(
+        isTextContentType(contentType) ? "utf8" : "base64"
+      ),
+      contentType,
+      size: content.length,
+    });
+  }
+
+  logger.info("[Archive] Zip archive extracted", {
+    entries: entries.length,
+    totalSize,
+  });
+
+  return stripCommonRoot(entries);
+};
+
+/**
+ * Merges inline files with the contents of an uploaded zip archive.
+ * Archive entries win over inline files that share the same path.
+ * @param inlineFiles Files passed through `FileInput`
+ * @param zipFile Optional uploaded zip archive
+ * @returns File records ready to be stored
+ */
+export const collectFiles = async (
+  inlineFiles: InlineFile[] = [],
+  zipFile?: Promise<FileUpload>
+): Promise<CollectedFile[]> => {
+  const files = new Map<string, CollectedFile>();
+
+  for (const file of inlineFiles) {
+    // Inline paths end up as archive entries on download, same rules as zips
+    const filePath = sanitizeEntryPath(file.path);
+    files.set(filePath, {
+      name: file.name,
+      path: filePath,
+      content: file.content,
+      contentType: file.contentType || file.type || null,
+      size: file.size ?? Buffer.byteLength(file.content, "utf8"),
+    });
+  }
+
+  if (zipFile) {
+    const { filename, data } = await readUpload(zipFile);
+    logger.info("[Archive] Extracting uploaded archive", {
+      filename,
+      size: data.length,
+    });
+
+    for (const entry of extractZipArchive(data)) {
+      files.set(entry.path, entry);
+    }
+  }
+
+  return Array.from(files.values());
+};
+
+/**
+ * Builds a zip archive from stored files
+ * @param files Stored files, paths relative to the project root
+ * @param root Directory name every entry is placed under
+ * @returns Zip archive bytes
+ */
+export const createZipArchive = (files: ArchiveSource[], root: string): Buffer => {
+  const zip = new AdmZip();
+
+  for (const file of files) {
+    // Rows stored before paths were sanitized must not escape the root either
+    zip.addFile(
+      path.posix.join(root, sanitizeEntryPath(file.path)),
+      fileContentToBuffer(file.content, file.contentType)
+    );
+  }
+
+  return zip.toBuffer();
+};
+
+/**
+ * Builds a gzipped tarball from stored files
+ * @param files Stored files, paths relative to the project root
+ * @param root Directory name every entry is placed under
+ * @returns Readable stream of the .tar.gz bytes
+ */
+export const createTarGzStream = (
+  files: ArchiveSource[],
+  root: string
+): Readable => {
+  const pack = tar.pack();
+
+  for (const file of files) {
+    pack.entry(
+      {
+        name: path.posix.join(root, sanitizeEntryPath(file.path)),
+        mode: 0o644,
+      },
+      fileContentToBuffer(file.content, file.contentType)
+    );
+  }
+  pack.finalize();
+
+  return pack.pipe(zlib.createGzip());
+};
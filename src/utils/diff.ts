@@ -0,0 +1,58 @@
+// src/utils/diff.ts
+import { FILE_HEADERS_ONLY, formatPatch, structuredPatch } from "diff";
+
+// Files larger than this are reported as modified without a text diff
+const MAX_DIFF_FILE_SIZE = parseInt(process.env.MAX_DIFF_FILE_SIZE || "1000000");
+// Gives up on pathological inputs instead of blocking the event loop
+const MAX_DIFF_EDIT_LENGTH = parseInt(
+  process.env.MAX_DIFF_EDIT_LENGTH || "10000"
+);
+
+export interface TextDiff {
+  diff: string;
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * Builds a unified diff between two versions of a text file
+ * @param filePath Path shown in the `---`/`+++` headers
+ * @param oldContent Content in the base version
+ * @param newContent Content in the compared version
+ * @returns Unified diff with line counts, or null when the file is too
+ * large or too different to diff cheaply
+ */
+export const createTextDiff = (
+  filePath: string,
+  oldContent: string,
+  newContent: string
+): TextDiff | null => {
+  if (
+    oldContent.length > MAX_DIFF_FILE_SIZE ||
+    newContent.length > MAX_DIFF_FILE_SIZE
+  ) {
+    return null;
+  }
+
+  const patch = structuredPatch(
+    `a/${filePath}`,
+    `b/${filePath}`,
+    oldContent,
+    newContent,
+    undefined,
+    undefined,
+    { context: 3, maxEditLength: MAX_DIFF_EDIT_LENGTH }
+  );
+  if (!patch) return null;
+
+  let additions = 0;
+  let deletions = 0;
+  for (const hunk of patch.hunks) {
+    for (const line of hunk.lines) {
+      if (line.startsWith("+")) additions++;
+      else if (line.startsWith("-")) deletions++;
+    }
+  }
+
+  return { diff: formatPatch(patch, FILE_HEADERS_ONLY), additions, deletions };
+};
@@ -43,6 +43,7 @@ export enum ErrorCode {
   // Business Logic Errors
   INVALID_OPERATION = 'INVALID_OPERATION',
   BUSINESS_RULE_VIOLATION = 'BUSINESS_RULE_VIOLATION',
+  TOO_MANY_REQUESTS = 'TOO_MANY_REQUESTS',
   
   // Server Errors
   INTERNAL_SERVER_ERROR = 'INTERNAL_SERVER_ERROR',
@@ -65,6 +66,7 @@ export const errorStatusMap: Record<ErrorCode, number> = {
   [ErrorCode.CONFLICT]: STATUS_CODES.CLIENT_ERROR.CONFLICT,
   [ErrorCode.INVALID_OPERATION]: STATUS_CODES.CLIENT_ERROR.BAD_REQUEST,
   [ErrorCode.BUSINESS_RULE_VIOLATION]: STATUS_CODES.CLIENT_ERROR.UNPROCESSABLE_ENTITY,
+  [ErrorCode.TOO_MANY_REQUESTS]: STATUS_CODES.CLIENT_ERROR.TOO_MANY_REQUESTS,
   [ErrorCode.INTERNAL_SERVER_ERROR]: STATUS_CODES.SERVER_ERROR.INTERNAL_SERVER_ERROR,
   [ErrorCode.DATABASE_ERROR]: STATUS_CODES.SERVER_ERROR.INTERNAL_SERVER_ERROR,
   [ErrorCode.SERVICE_UNAVAILABLE]: STATUS_CODES.SERVER_ERROR.SERVICE_UNAVAILABLE,
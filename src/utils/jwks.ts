@@ -0,0 +1,117 @@
+// src/utils/jwks.ts
+import axios from "axios";
+import { createPublicKey, JsonWebKey, KeyObject } from "crypto";
+import * as jwt from "jsonwebtoken";
+import logger from "./logger";
+
+// How long fetched keys are trusted before the key set is fetched again
+const JWKS_CACHE_TTL = parseInt(process.env.JWKS_CACHE_TTL || "3600") * 1000;
+// Unknown key ids refetch the key set at most this often, so forged tokens
+// cannot make every request call the provider
+const JWKS_MIN_REFETCH_INTERVAL =
+  parseInt(process.env.JWKS_MIN_REFETCH_INTERVAL || "60") * 1000;
+const JWKS_MAX_UNKNOWN_KIDS = 1000;
+
+interface CachedKeySet {
+  keys: Map<string, KeyObject>;
+  // Key ids looked up and not found since this set was fetched
+  unknownKids: Set<string>;
+  fetchedAt: number;
+}
+
+const keySets = new Map<string, CachedKeySet>();
+const pendingFetches = new Map<string, Promise<CachedKeySet>>();
+
+const fetchKeySet = async (jwksUrl: string): Promise<CachedKeySet> => {
+  const response = await axios.get<{ keys: (JsonWebKey & { kid?: string })[] }>(
+    jwksUrl
+  );
+
+  const keys = new Map<string, KeyObject>();
+  for (const jwk of response.data.keys || []) {
+    if (!jwk.kid) continue;
+    keys.set(jwk.kid, createPublicKey({ key: jwk, format: "jwk" }));
+  }
+
+  const keySet = {
+    keys,
+    unknownKids: new Set<string>(),
+    fetchedAt: Date.now(),
+  };
+  keySets.set(jwksUrl, keySet);
+  logger.info("[JWKS] Key set fetched", { jwksUrl, keys: keys.size });
+
+  return keySet;
+};
+
+// Concurrent lookups share one request
+const refreshKeySet = (jwksUrl: string): Promise<CachedKeySet> => {
+  let pending = pendingFetches.get(jwksUrl);
+  if (!pending) {
+    pending = fetchKeySet(jwksUrl).finally(() =>
+      pendingFetches.delete(jwksUrl)
+    );
+    pendingFetches.set(jwksUrl, pending);
+  }
+  return pending;
+};
+
+/**
+ * Finds the public key for a key id, refetching the key set when it is
+ * stale or the key id is unknown (providers rotate their keys). Unknown key
+ * ids refetch at most once per `JWKS_MIN_REFETCH_INTERVAL` and are not
+ * looked up again until the next fetch.
+ * @param jwksUrl JWKS endpoint
+ * @param kid Key id from the token header
+ */
+const getSigningKey = async (jwksUrl: string, kid: string) => {
+  let keySet = keySets.get(jwksUrl);
+  const age = keySet ? Date.now() - keySet.fetchedAt : Infinity;
+  if (
+    !keySet ||
+    age > JWKS_CACHE_TTL ||
+    (!keySet.keys.has(kid) &&
+      !keySet.unknownKids.has(kid) &&
+      age > JWKS_MIN_REFETCH_INTERVAL)
+  ) {
+    keySet = await refreshKeySet(jwksUrl);
+  }
+
+  const key = keySet.keys.get(kid);
+  if (!key) {
+    // Forged tokens with random key ids must not grow it without bound
+    if (keySet.unknownKids.size >= JWKS_MAX_UNKNOWN_KIDS) {
+      keySet.unknownKids.clear();
+    }
+    keySet.unknownKids.add(kid);
+    throw new jwt.JsonWebTokenError(`No signing key found for kid ${kid}`);
+  }
+  return key;
+};
+
+/**
+ * Verifies a JWT signed with a key published in a JWKS
+ * @param token Encoded JWT, e.g. an OpenID Connect ID token
+ * @param jwksUrl JWKS endpoint of the issuer
+ * @param options Expected audience and issuer
+ * @returns Verified token payload
+ * @throws JsonWebTokenError when the signature or claims are invalid
+ */
+export const verifyJwtWithJwks = async <T extends jwt.JwtPayload>(
+  token: string,
+  jwksUrl: string,
+  options: { audience?: string; issuer?: string | [string, ...string[]] }
+): Promise<T> => {
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded || !decoded.header.kid) {
+    throw new jwt.JsonWebTokenError("Token is missing a key id");
+  }
+
+  const key = await getSigningKey(jwksUrl, decoded.header.kid);
+
+  return jwt.verify(token, key, {
+    algorithms: ["RS256"],
+    audience: options.audience,
+    issuer: options.issuer,
+  }) as T;
+};
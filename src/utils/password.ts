@@ -0,0 +1,55 @@
+// src/utils/password.ts
+import bcrypt from "bcryptjs";
+import { ValidationError } from "./errorHandler";
+
+const BCRYPT_SALT_ROUNDS = parseInt(process.env.BCRYPT_SALT_ROUNDS || "12");
+const PASSWORD_MIN_LENGTH = parseInt(process.env.PASSWORD_MIN_LENGTH || "8");
+// bcrypt ignores everything past 72 bytes
+const PASSWORD_MAX_BYTES = 72;
+
+/**
+ * Lists every password policy rule the password breaks
+ * @param password Candidate password
+ * @returns Human readable violations, empty when the password is acceptable
+ */
+export const getPasswordPolicyViolations = (password: string): string[] => {
+  const violations: string[] = [];
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    violations.push(`Must be at least ${PASSWORD_MIN_LENGTH} characters long`);
+  }
+  if (Buffer.byteLength(password, "utf8") > PASSWORD_MAX_BYTES) {
+    violations.push(`Must be at most ${PASSWORD_MAX_BYTES} bytes long`);
+  }
+  if (!/[a-z]/.test(password) || !/[A-Z]/.test(password)) {
+    violations.push("Must contain both lowercase and uppercase letters");
+  }
+  if (!/\d/.test(password)) {
+    violations.push("Must contain a digit");
+  }
+  if (password.trim() !== password) {
+    violations.push("Must not start or end with whitespace");
+  }
+
+  return violations;
+};
+
+/**
+ * @throws ValidationError listing the violations when the password is too weak
+ */
+export const assertPasswordPolicy = (password: string): void => {
+  const violations = getPasswordPolicyViolations(password);
+  if (violations.length > 0) {
+    throw new ValidationError("Password does not meet the password policy", {
+      violations,
+    });
+  }
+};
+
+export const hashPassword = (password: string): Promise<string> =>
+  bcrypt.hash(password, BCRYPT_SALT_ROUNDS);
+
+export const verifyPassword = (
+  password: string,
+  hash: string
+): Promise<boolean> => bcrypt.compare(password, hash);
@@ -0,0 +1,49 @@
+// src/utils/redisLock.ts
+import { randomUUID } from "crypto";
+import { redis } from "../config/redis";
+import logger from "./logger";
+
+/**
+ * Short-lived locks so scheduled jobs run on one API instance at a time. A
+ * lock expires on its own; releasing it early only succeeds for the holder,
+ * since after expiry another instance may already hold the same key.
+ */
+
+const RELEASE_SCRIPT = `
+  if redis.call("get", KEYS[1]) == ARGV[1] then
+    return redis.call("del", KEYS[1])
+  end
+  return 0
+`;
+
+/**
+ * Takes the lock unless someone else holds it
+ * @param key Lock key
+ * @param ttl Seconds until the lock expires
+ * @returns Token to release the lock with, null when already held
+ */
+export const acquireLock = async (
+  key: string,
+  ttl: number
+): Promise<string | null> => {
+  const token = randomUUID();
+  const locked = await redis.set(key, token, "EX", ttl, "NX");
+  return locked ? token : null;
+};
+
+/**
+ * Releases the lock if `token` still holds it. Never throws, an unreleased
+ * lock just expires.
+ * @param key Lock key
+ * @param token Token returned by `acquireLock`
+ */
+export const releaseLock = async (key: string, token: string) => {
+  try {
+    await redis.eval(RELEASE_SCRIPT, 1, key, token);
+  } catch (error: any) {
+    logger.warn("[Redis Lock] Failed to release lock", {
+      key,
+      error: error.message,
+    });
+  }
+};
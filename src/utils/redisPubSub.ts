@@ -0,0 +1,115 @@
+// src/utils/redisPubSub.ts
+import Redis from "ioredis";
+import { PubSubEngine } from "graphql-subscriptions";
+import logger from "./logger";
+
+type MessageHandler = (payload: any) => void;
+
+/**
+ * `PubSubEngine` over Redis pub/sub so events published by one API instance
+ * reach subscribers connected to any other. Each instance holds a single
+ * subscriber connection; a Redis channel stays subscribed only while at least
+ * one local subscription listens to it.
+ */
+export class RedisPubSub extends PubSubEngine {
+  private handlers = new Map<number, { channel: string; onMessage: MessageHandler }>();
+  private channelSubscriptions = new Map<string, Set<number>>();
+  private nextSubscriptionId = 0;
+
+  /**
+   * @param publisher Connection used for PUBLISH, may be shared
+   * @param subscriber Dedicated connection, Redis blocks other commands on it
+   * @param prefix Namespace prepended to every channel
+   */
+  constructor(
+    private publisher: Redis,
+    private subscriber: Redis,
+    private prefix: string
+  ) {
+    super();
+    this.subscriber.on("message", (channel: string, message: string) =>
+      this.dispatch(channel, message)
+    );
+  }
+
+  async publish(triggerName: string, payload: unknown): Promise<void> {
+    await this.publisher.publish(this.channel(triggerName), JSON.stringify(payload));
+  }
+
+  async subscribe(triggerName: string, onMessage: MessageHandler): Promise<number> {
+    const channel = this.channel(triggerName);
+    const subscriptionId = ++this.nextSubscriptionId;
+
+    this.handlers.set(subscriptionId, { channel, onMessage });
+    let subscriptionIds = this.channelSubscriptions.get(channel);
+    if (!subscriptionIds) {
+      subscriptionIds = new Set();
+      this.channelSubscriptions.set(channel, subscriptionIds);
+    }
+    subscriptionIds.add(subscriptionId);
+
+    if (subscriptionIds.size === 1) {
+      try {
+        await this.subscriber.subscribe(channel);
+      } catch (error) {
+        this.unsubscribe(subscriptionId);
+        throw error;
+      }
+    }
+
+    return subscriptionId;
+  }
+
+  unsubscribe(subscriptionId: number): void {
+    const handler = this.handlers.get(subscriptionId);
+    if (!handler) return;
+
+    this.handlers.delete(subscriptionId);
+    const subscriptionIds = this.channelSubscriptions.get(handler.channel);
+    subscriptionIds?.delete(subscriptionId);
+
+    // Last local listener gone, stop receiving the channel
+    if (subscriptionIds && subscriptionIds.size === 0) {
+      this.channelSubscriptions.delete(handler.channel);
+      this.subscriber.unsubscribe(handler.channel).catch((error) =>
+        logger.warn("[RedisPubSub] Failed to unsubscribe", {
+          channel: handler.channel,
+          error: error.message,
+        })
+      );
+    }
+  }
+
+  /**
+   * Closes the subscriber connection, pending subscriptions stop receiving events
+   */
+  async close(): Promise<void> {
+    this.handlers.clear();
+    this.channelSubscriptions.clear();
+    await this.subscriber.quit();
+  }
+
+  private channel(triggerName: string) {
+    return `${this.prefix}${triggerName}`;
+  }
+
+  private dispatch(channel: string, message: string) {
+    const subscriptionIds = this.channelSubscriptions.get(channel);
+    if (!subscriptionIds) return;
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(message);
+    } catch (error: any) {
+      logger.warn("[RedisPubSub] Dropped malformed message", {
+        channel,
+        error: error.message,
+      });
+      return;
+    }
+
+    for (const subscriptionId of subscriptionIds) {
+      this.handlers.get(subscriptionId)?.onMessage(payload);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { compareSemver, isValidSemver, parseSemver } from "./semver";
+
+describe("parseSemver", () => {
+  it("parses core and prerelease identifiers", () => {
+    assert.deepEqual(parseSemver("1.2.3-beta.1+build.5"), {
+      major: 1,
+      minor: 2,
+      patch: 3,
+      prerelease: ["beta", "1"],
+    });
+  });
+
+  it("rejects versions that are not semver", () => {
+    const versions = ["1.2", "v1.2.3", "01.2.3", "1.2.3-", "1.2.3-01", ""];
+    for (const version of versions) {
+      assert.equal(isValidSemver(version), false, version);
+    }
+  });
+});
+
+describe("compareSemver", () => {
+  it("orders by major, minor and patch numerically", () => {
+    assert.equal(compareSemver("1.10.0", "1.9.0"), 1);
+    assert.equal(compareSemver("1.2.3", "2.0.0"), -1);
+    assert.equal(compareSemver("1.2.3", "1.2.3"), 0);
+  });
+
+  it("follows the semver prerelease precedence", () => {
+    const ordered = [
+      "1.0.0-alpha",
+      "1.0.0-alpha.1",
+      "1.0.0-alpha.beta",
+      "1.0.0-beta",
+      "1.0.0-beta.2",
+      "1.0.0-beta.11",
+      "1.0.0-rc.1",
+      "1.0.0",
+    ];
+    for (let i = 1; i < ordered.length; i++) {
+      assert.equal(compareSemver(ordered[i - 1], ordered[i]), -1, ordered[i]);
+      assert.equal(compareSemver(ordered[i], ordered[i - 1]), 1, ordered[i]);
+    }
+  });
+
+  it("ignores build metadata", () => {
+    assert.equal(compareSemver("1.0.0+build.1", "1.0.0+build.2"), 0);
+  });
+
+  it("ranks invalid versions below valid ones instead of throwing", () => {
+    assert.equal(compareSemver("legacy", "0.0.1"), -1);
+    assert.equal(compareSemver("0.0.1", "legacy"), 1);
+    assert.equal(compareSemver("v1", "v2"), -1);
+    assert.deepEqual(
+      ["v1", "1.0.0", "2.0.0-rc.1", "latest"].sort((a, b) =>
+        compareSemver(b, a)
+      ),
+      ["2.0.0-rc.1", "1.0.0", "v1", "latest"]
+    );
+  });
+});
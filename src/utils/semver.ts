@@ -0,0 +1,72 @@
+// src/utils/semver.ts
+
+// Semantic Versioning 2.0.0, see https://semver.org
+const SEMVER_PATTERN =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+export const parseSemver = (version: string): SemVer | null => {
+  const match = SEMVER_PATTERN.exec(version);
+  if (!match) return null;
+
+  return {
+    major: parseInt(match[1]),
+    minor: parseInt(match[2]),
+    patch: parseInt(match[3]),
+    prerelease: match[4] ? match[4].split(".") : [],
+  };
+};
+
+export const isValidSemver = (version: string): boolean =>
+  parseSemver(version) !== null;
+
+const compareIdentifiers = (a: string, b: string): number => {
+  const aNumeric = /^\d+$/.test(a);
+  const bNumeric = /^\d+$/.test(b);
+
+  if (aNumeric && bNumeric) return Math.sign(parseInt(a) - parseInt(b));
+  if (aNumeric) return -1;
+  if (bNumeric) return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+/**
+ * Compares two versions by semver precedence (build metadata is ignored).
+ * Invalid versions, e.g. legacy rows, rank below every valid one and are
+ * ordered by plain string comparison among themselves.
+ * @returns -1 if a < b, 0 if equal, 1 if a > b
+ */
+export const compareSemver = (a: string, b: string): number => {
+  const left = parseSemver(a);
+  const right = parseSemver(b);
+  if (!left || !right) {
+    if (left) return 1;
+    if (right) return -1;
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  for (const key of ["major", "minor", "patch"] as const) {
+    if (left[key] !== right[key]) return Math.sign(left[key] - right[key]);
+  }
+
+  // A version without prerelease identifiers has higher precedence
+  if (!left.prerelease.length || !right.prerelease.length) {
+    return Math.sign(right.prerelease.length - left.prerelease.length);
+  }
+
+  const length = Math.max(left.prerelease.length, right.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    if (left.prerelease[i] === undefined) return -1;
+    if (right.prerelease[i] === undefined) return 1;
+    const result = compareIdentifiers(left.prerelease[i], right.prerelease[i]);
+    if (result !== 0) return result;
+  }
+
+  return 0;
+};